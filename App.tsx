@@ -1,18 +1,59 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { startLiveSession, generateEmpatheticResponse, generateSpeech } from './services/geminiService';
-import { ChatMessage, Emotion, FusedEmotion, Theme, TTSVoice } from './types';
+import { getActiveProvider, LiveSession, LLMProvider, ProviderId, setActiveProvider } from './services/providers';
+import { ChatMessage, CrisisCategory, Emotion, EmotionModality, EmotionScores, EmotionTimelineEntry, FaceStatus, FusionResult, Theme, TTSVoice } from './types';
 import ApiKeyModal from './components/ApiKeyModal';
 import ConsentModal from './components/ConsentModal';
 import Header from './components/Header';
 import SessionControl from './components/SessionControl';
 import VideoFeed from './components/VideoFeed';
 import EmotionDisplay from './components/EmotionDisplay';
-import { decode, decodeAudioData, encode } from './utils/audioUtils';
-import ChatPanel from './components/ChatPanel';
+import EmotionTimeline from './components/EmotionTimeline';
+import SessionSidebar from './components/SessionSidebar';
+import FacePicker, { FaceSummary } from './components/FacePicker';
+import DeviceSettings from './components/DeviceSettings';
+import PersonaSettings from './components/PersonaSettings';
+import { analyserLevel, concatBytes, decode, decodeAudioData, encode } from './utils/audioUtils';
+import ChatPanel, { ErrorNotice } from './components/ChatPanel';
 import { useMediaStream } from './hooks/useMediaStream';
+import { useEmotionTimeline } from './hooks/useEmotionTimeline';
+import { useSessionHistory } from './hooks/useSessionHistory';
+import { useLiveEmotionUpdates } from './hooks/useLiveEmotionUpdates';
+import { useMessageAudioPlayer } from './hooks/useMessageAudioPlayer';
+import { useMediaDevices } from './hooks/useMediaDevices';
+import { useConversationLifecycle } from './hooks/useConversationLifecycle';
+import { createVocalEmotionAnalyzer } from './services/vocalEmotionAnalyzer';
+import { createEmotionFusion, faceExpressionsToScores, fuseDistributions } from './services/emotionFusion';
+import { classifyTextEmotion, TextEmotionResult } from './services/textEmotionClassifier';
+import { createFacialEmotionTracker } from './services/facialEmotionTracker';
+import { FaceDetectorVariant, getPreferredDetector, ModelLoadProgress, setPreferredDetector } from './services/faceDetectors';
+import { createFaceDetectionClient, FaceDetectionClient } from './services/faceDetectionClient';
+import { createFaceIdentityTracker, selectPrimaryFace } from './services/faceIdentityTracker';
+import { loadAudioClip, saveAudioClip } from './services/sessionStore';
+import { DeviceKind, openInputDevice, setAudioOutputDevice, supportsOutputSelection } from './services/deviceManager';
+import { isLivePhase } from './services/conversationLifecycle';
+import { buildResumeContext, connectReconnectingLiveSession } from './services/reconnectingLiveSession';
+import { canRetryError, errorMessage, ServiceError, toServiceError } from './services/serviceErrors';
+import { clearSessionApiKey, forgetSavedApiKey, getApiKey, getSessionApiKey, redactForLog } from './services/apiKeyManager';
+import {
+  downloadFile, ExportedAudioClip, exportSessionJson, exportSessionMarkdown, ExportFormat, fromExportedAudioClip,
+  parseSessionExport, toExportedAudioClip, withFreshAudioIds,
+} from './services/sessionExport';
+import { AudioCapture, CAPTURE_SAMPLE_RATE, startAudioCapture } from './services/audioCapture';
+import { createVoiceActivityDetector, isBargeIn } from './services/voiceActivityDetector';
+import { createSpeechQueue, SpeechQueue } from './services/speechQueue';
+import { buildSystemPrompt, describeSessionContext, getPersonaSettings, PersonaSettings as PersonaSettingsValue, resolvePersona, savePersonaSettings } from './services/personas';
+import { getSpeechStyles, saveSpeechStyles, SpeechStyle, SpeechStyleTable } from './services/speechStyle';
+import { buildSafeMessagingReply, getHelplineRegion, screenForCrisis, setHelplineRegion, withoutCrisisMessages } from './services/crisisSafety';
+import { createChatMessage } from './utils/chatMessage';
+import { createSentenceChunker } from './utils/sentenceChunker';
+import { dominantEmotion } from './utils/emotionScores';
+import { drawFaceOverlay } from './utils/faceOverlay';
 import { LiveServerMessage, Blob as GenAI_Blob } from '@google/genai';
 
+// Errors can carry the API key, e.g. in a request URL, so nothing reaches the console unmasked.
+const logError = (err: unknown) => console.error(redactForLog(err));
+
 // High-quality voices available from the Gemini TTS API
 const ttsVoices: TTSVoice[] = [
     { name: 'Kore (Calm, Female)', value: 'Kore' },
@@ -31,66 +72,102 @@ declare global {
   }
   interface Window {
     aistudio?: AIStudio;
-    faceapi?: any;
     webkitAudioContext: typeof AudioContext;
   }
 }
 
-declare const faceapi: any;
-
-/**
- * Converts a Float32Array of PCM data to a Int16Array.
- * @param buffer The Float32Array of audio data (samples between -1.0 and 1.0).
- * @returns An Int16Array of the audio data.
- */
-const float32ToInt16 = (buffer: Float32Array): Int16Array => {
-    const int16 = new Int16Array(buffer.length);
-    for (let i = 0; i < buffer.length; i++) {
-        const s = Math.max(-1, Math.min(1, buffer[i]));
-        // Convert to 16-bit integer, handling the asymmetric range.
-        int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-    }
-    return int16;
-};
-
 const App: React.FC = () => {
   const [apiKeySelected, setApiKeySelected] = useState(false);
   const [apiKeyError, setApiKeyError] = useState(false);
   const [consentGiven, setConsentGiven] = useState(false);
   const [isSessionActive, setIsSessionActive] = useState(false);
   const [facialEmotion, setFacialEmotion] = useState<Emotion>('Neutral');
+  const [faceStatus, setFaceStatus] = useState<FaceStatus>('searching');
   const [vocalEmotion, setVocalEmotion] = useState<Emotion>('Neutral');
-  const [fusedEmotion, setFusedEmotion] = useState<FusedEmotion>('Neutral');
+  const [vocalScores, setVocalScores] = useState<EmotionScores | null>(null);
+  const [textEmotion, setTextEmotion] = useState<TextEmotionResult | null>(null);
+  const [fusion, setFusion] = useState<FusionResult>(() => fuseDistributions([]));
+  const [hasFusionEvidence, setHasFusionEvidence] = useState(false);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isLoadingAudio, setIsLoadingAudio] = useState(false);
-  const [isLiveActive, setIsLiveActive] = useState(false);
   const [inputText, setInputText] = useState('');
   const [theme, setTheme] = useState<Theme>('dark');
   const [selectedVoice, setSelectedVoice] = useState<string>(ttsVoices[0].value);
   const [mediaError, setMediaError] = useState<string | null>(null);
+  const [errorNotice, setErrorNotice] = useState<ErrorNotice | null>(null);
+  // Explains an automatic device fallback, e.g. after a headset was unplugged.
+  const [deviceNotice, setDeviceNotice] = useState<string | null>(null);
   const [modelsLoaded, setModelsLoaded] = useState(false);
+  const [faceDetector, setFaceDetector] = useState<FaceDetectorVariant>(getPreferredDetector);
+  const [modelLoadProgress, setModelLoadProgress] = useState<ModelLoadProgress | null>(null);
+  const [isMultiFace, setIsMultiFace] = useState(false);
+  const [showAllFaceEmotions, setShowAllFaceEmotions] = useState(false);
+  const [trackedFaces, setTrackedFaces] = useState<FaceSummary[]>([]);
+  const [primaryFaceId, setPrimaryFaceId] = useState<number | null>(null);
+  const [pinnedFaceId, setPinnedFaceId] = useState<number | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isApiKeyOpen, setIsApiKeyOpen] = useState(false);
+  const [personaSettings, setPersonaSettings] = useState<PersonaSettingsValue>(getPersonaSettings);
+  const [speechStyles, setSpeechStyles] = useState<SpeechStyleTable>(getSpeechStyles);
+  const [inputAnalyser, setInputAnalyser] = useState<AnalyserNode | null>(null);
+  const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+  const [provider, setProvider] = useState<LLMProvider>(getActiveProvider);
+  const [helplineRegion, setHelplineRegionState] = useState<string>(getHelplineRegion);
 
-  const { stream, startStream, stopStream, error: streamError } = useMediaStream();
+  const { stream, startStream, stopStream, error: streamError } = useMediaStream(() => handleCameraLost());
+  const mediaDevices = useMediaDevices();
+  const lifecycle = useConversationLifecycle(() => teardownLiveSession());
+  const isLiveActive = isLivePhase(lifecycle.phase);
   
-  const liveAudioSourcesRef = useRef(new Set<AudioBufferSourceNode>());
+  const playbackSourcesRef = useRef(new Set<AudioBufferSourceNode>());
   const liveAudioStreamRef = useRef<MediaStream | null>(null);
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
-  const inputAudioContextRef = useRef<AudioContext | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
+  const audioCaptureRef = useRef<AudioCapture | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-  const mediaStreamSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const nextStartTimeRef = useRef(0);
+  const outputAnalyserRef = useRef<AnalyserNode | null>(null);
+  const speechQueueRef = useRef<SpeechQueue | null>(null);
+  const voiceActivityRef = useRef(createVoiceActivityDetector());
+  // Microphone chunks held back while nobody is speaking, replayed when speech starts.
+  const preRollRef = useRef<GenAI_Blob[]>([]);
+  // Set on barge-in; drops the rest of the AI turn the server is still streaming.
+  const suppressAiAudioRef = useRef(false);
+  const vocalAnalyzerRef = useRef(createVocalEmotionAnalyzer());
+  const fusionRef = useRef(createEmotionFusion());
+  const facialTrackerRef = useRef(createFacialEmotionTracker());
+  const faceDetectionRef = useRef<FaceDetectionClient | null>(null);
+  const faceIdentityRef = useRef(createFaceIdentityTracker());
+  // Read inside the detection loop, which is not restarted when these change.
+  const pinnedFaceIdRef = useRef<number | null>(null);
+  const showAllFaceEmotionsRef = useRef(false);
+  const primaryFaceIdRef = useRef<number | null>(null);
   
-  const isUserTurnActive = useRef(false);
-  const isAiTurnActive = useRef(false);
+  const liveUserTurnTextRef = useRef('');
+  const liveUserTurnCountRef = useRef(0);
+  // Set when the current live turn was flagged; the model's reply is replaced by the safe-messaging one.
+  const crisisTurnRef = useRef<{ categories: CrisisCategory[]; replied: boolean } | null>(null);
+  // Audio of the live reply being spoken, attached to its message once the turn ends.
+  const liveReplyAudioRef = useRef<string[]>([]);
+  const liveAiMessageIdRef = useRef<string | null>(null);
+  // Every context assistant audio plays through, so a speaker change can reach all of them.
+  // Each output context gets one analyser, created with it and reused for everything it plays.
+  const outputAnalysersRef = useRef(new Map<AudioContext, AnalyserNode>());
+  const microphoneLostRef = useRef<() => void>(() => {});
+  // The speaker actually in use; differs from the preference while that speaker is unplugged.
+  const audioOutputIdRef = useRef<string | undefined>(undefined);
+  const helplineRegionRef = useRef(helplineRegion);
+  // Read when a dropped live connection is replaced, long after the session's callbacks were created.
+  const chatHistoryRef = useRef(chatHistory);
+  chatHistoryRef.current = chatHistory;
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement | null>(null);
 
   useEffect(() => {
     const checkApiKey = async () => {
-        if (sessionStorage.getItem('gemini-api-key')) {
+        if (getSessionApiKey()) {
             setApiKeySelected(true);
             return;
         }
@@ -105,31 +182,52 @@ const App: React.FC = () => {
     checkApiKey();
   }, []);
 
+  const getFaceDetection = useCallback(() => {
+    if (!faceDetectionRef.current) faceDetectionRef.current = createFaceDetectionClient();
+    return faceDetectionRef.current;
+  }, []);
+
+  useEffect(() => () => {
+    faceDetectionRef.current?.terminate();
+    faceDetectionRef.current = null;
+  }, []);
+
   useEffect(() => {
+    if (!consentGiven) return;
+    let isCancelled = false;
     const loadModels = async () => {
-        const MODEL_URL = 'https://cdn.jsdelivr.net/gh/justadudewhohacks/face-api.js@master/weights';
+        setModelsLoaded(false);
+        setModelLoadProgress({ loadedBytes: 0, totalBytes: null });
         try {
-            await faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL);
-            await faceapi.nets.faceExpressionNet.loadFromUri(MODEL_URL);
-            setModelsLoaded(true);
+            // Already loaded models resolve immediately without reporting progress.
+            await getFaceDetection().load(faceDetector, progress => { if (!isCancelled) setModelLoadProgress(progress); });
+            if (!isCancelled) setModelsLoaded(true);
         } catch (error) {
-            console.error("Error loading facial recognition models:", error);
-            setMediaError("Could not load emotion detection models. Please refresh the page.");
+            console.error("Error loading facial recognition models:", redactForLog(error));
+            if (!isCancelled) setMediaError("Could not load emotion detection models. Please refresh the page.");
+        } finally {
+            if (!isCancelled) setModelLoadProgress(null);
         }
     };
-    if (consentGiven && typeof faceapi !== 'undefined') {
-        loadModels();
-    }
-  }, [consentGiven]);
+    loadModels();
+    return () => { isCancelled = true; };
+  }, [consentGiven, faceDetector, getFaceDetection]);
+
+  const handleDetectorChange = (variant: FaceDetectorVariant) => {
+    if (isSessionActive || variant === faceDetector) return;
+    setPreferredDetector(variant);
+    setFaceDetector(variant);
+  };
 
-  const handleApiError = (err: any, context: string) => {
-    console.error(`Error in ${context}:`, err);
-    const errorMessage = err?.message || (typeof err === 'string' ? err : JSON.stringify(err));
-    if (errorMessage.includes("API key not valid") || errorMessage.includes("Requested entity was not found.")) {
-        sessionStorage.removeItem('gemini-api-key'); // Clear invalid local key
+  const handleApiError = (err: unknown, context: string): ServiceError => {
+    console.error(`Error in ${context}:`, redactForLog(err));
+    const error = toServiceError(err);
+    if (error.kind === 'invalid-key') {
+        clearSessionApiKey(); // Clear invalid local key
         setApiKeySelected(false);
         setApiKeyError(true);
     }
+    return error;
   };
 
   useEffect(() => {
@@ -148,153 +246,571 @@ const App: React.FC = () => {
     setConsentGiven(true);
   };
 
+  const refreshFusion = useCallback((): FusionResult => {
+    const next = fusionRef.current.fuse(Date.now());
+    // Skip re-renders for small confidence jitter when the fused label is unchanged.
+    setFusion(prev => prev.emotion === next.emotion && Math.abs(prev.confidence - next.confidence) < 0.05 ? prev : next);
+    setHasFusionEvidence(Object.keys(next.modalities).length > 0);
+    return next;
+  }, []);
+
+  const addEmotionObservation = useCallback((modality: EmotionModality, scores: EmotionScores, reliability?: number, key?: string) => {
+    fusionRef.current.addObservation(modality, scores, Date.now(), reliability, key);
+    return refreshFusion();
+  }, [refreshFusion]);
+
+  // `key` identifies text that is still growing, so each re-classification replaces the last one.
+  const registerTextEmotion = useCallback((text: string, key?: string): FusionResult => {
+    const result = classifyTextEmotion(text);
+    setTextEmotion(result);
+    // Text without any emotional language says nothing about mood; leave fusion alone.
+    return result.reliability > 0 ? addEmotionObservation('text', result.scores, result.reliability, key) : refreshFusion();
+  }, [addEmotionObservation, refreshFusion]);
+
+  const clearEmotionModality = useCallback((modality: EmotionModality) => {
+    fusionRef.current.clear(modality);
+    refreshFusion();
+  }, [refreshFusion]);
+
+  const sampleFusion = useCallback(() => {
+    const next = fusionRef.current.fuse(Date.now());
+    // Evidence expires without any event firing, so sampling is where it is noticed.
+    if (Object.keys(next.modalities).length === 0) setHasFusionEvidence(false);
+    return next;
+  }, []);
+  // Keep recording while any modality still has evidence in the fusion window, e.g. after a typed message.
+  const isRecordingTimeline = isSessionActive || isLiveActive || hasFusionEvidence;
+  const { timeline, setTimeline } = useEmotionTimeline(sampleFusion, isRecordingTimeline);
+
+  const restoreSession = useCallback((messages: ChatMessage[], restoredTimeline: EmotionTimelineEntry[]) => {
+    setChatHistory(messages);
+    setTimeline(restoredTimeline);
+  }, [setTimeline]);
+  const sessionHistory = useSessionHistory(chatHistory, timeline, restoreSession);
+  
   const toggleSession = () => {
     if (isSessionActive) {
       stopStream();
       setIsSessionActive(false);
     } else {
-      startStream({ video: true, audio: false });
+      startStream(mediaDevices.preferences.videoinput).then(result => {
+        if (result?.usedFallback) setDeviceNotice('Your chosen camera is not connected. Using the default camera.');
+      });
       setIsSessionActive(true);
     }
+    facialTrackerRef.current.reset();
     setFacialEmotion('Neutral');
-    setVocalEmotion('Neutral');
+    setFaceStatus('searching');
+    clearEmotionModality('face');
   };
 
-  const updateFusedEmotion = useCallback(() => {
-    if (facialEmotion === 'Angry' || vocalEmotion === 'Angry') setFusedEmotion('Angry');
-    else if (facialEmotion === 'Sad' || vocalEmotion === 'Sad') setFusedEmotion('Sad');
-    else if (facialEmotion === 'Happy' || vocalEmotion === 'Happy') setFusedEmotion('Happy');
-    else if (facialEmotion === 'Surprised' || vocalEmotion === 'Surprised') setFusedEmotion('Surprised');
-    else setFusedEmotion('Neutral');
-  }, [facialEmotion, vocalEmotion]);
+  const resetVocalEmotion = useCallback(() => {
+    vocalAnalyzerRef.current.reset();
+    setVocalEmotion('Neutral');
+    setVocalScores(null);
+    clearEmotionModality('voice');
+  }, [clearEmotionModality]);
+
+  // All assistant audio goes through one analyser per output context so the level meter can show it.
+  const getOutputNode = useCallback((ctx: AudioContext): AudioNode => {
+    let analyser = outputAnalysersRef.current.get(ctx);
+    if (!analyser) {
+      outputAnalysersRef.current.forEach((_, known) => {
+        if (known.state === 'closed') outputAnalysersRef.current.delete(known);
+      });
+      analyser = ctx.createAnalyser();
+      analyser.fftSize = 1024;
+      analyser.connect(ctx.destination);
+      outputAnalysersRef.current.set(ctx, analyser);
+      setAudioOutputDevice(ctx, audioOutputIdRef.current).catch(logError);
+    }
+    // The visualizer follows whichever context played last.
+    if (outputAnalyserRef.current !== analyser) {
+      outputAnalyserRef.current = analyser;
+      setOutputAnalyser(analyser);
+    }
+    return analyser;
+  }, []);
+
+  const messagePlayer = useMessageAudioPlayer(getOutputNode);
 
-  useEffect(() => {
-    updateFusedEmotion();
-  }, [facialEmotion, vocalEmotion, updateFusedEmotion]);
-  
   const stopAllAudio = useCallback(() => {
-    liveAudioSourcesRef.current.forEach(source => {
+    messagePlayer.stop();
+    speechQueueRef.current?.cancel();
+    playbackSourcesRef.current.forEach(source => {
       try { source.stop(); } catch (e) {}
     });
-    liveAudioSourcesRef.current.clear();
+    playbackSourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
+  }, [messagePlayer.stop]);
+
+  const markLiveReplyInterrupted = useCallback(() => {
+    setChatHistory(prev => {
+      const lastMessage = prev[prev.length - 1];
+      if (!lastMessage || lastMessage.sender !== 'ai' || lastMessage.origin !== 'live') return prev;
+      return [...prev.slice(0, -1), { ...lastMessage, interrupted: true }];
+    });
   }, []);
 
-  const handleSendMessage = async (text: string) => {
+  const playTypedSpeech = useCallback(async (audioData: string, style?: SpeechStyle) => {
+    if (!outputAudioContextRef.current || outputAudioContextRef.current.state === 'closed') {
+        outputAudioContextRef.current = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: 24000 });
+        nextStartTimeRef.current = 0;
+    }
+    const ctx = outputAudioContextRef.current;
+    const audioBuffer = await decodeAudioData(decode(audioData), ctx, 24000, 1);
+    const source = ctx.createBufferSource();
+    source.buffer = audioBuffer;
+    source.playbackRate.value = style?.rate ?? 1;
+    const gain = ctx.createGain();
+    gain.gain.value = style?.gain ?? 1;
+    source.connect(gain).connect(getOutputNode(ctx));
+    source.onended = () => playbackSourcesRef.current.delete(source);
+    // Queue sentences back to back so the reply sounds continuous.
+    nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+    source.start(nextStartTimeRef.current);
+    nextStartTimeRef.current += audioBuffer.duration / source.playbackRate.value;
+    playbackSourcesRef.current.add(source);
+  }, [getOutputNode]);
+
+  // Keeps a reply's speech in the local audio cache so it can be replayed and exported.
+  const storeReplyAudio = useCallback(async (messageId: string, chunks: string[], style?: SpeechStyle) => {
+    if (chunks.length === 0) return;
+    try {
+      const id = crypto.randomUUID();
+      const pcm = concatBytes(chunks.map(decode));
+      await saveAudioClip({ id, sampleRate: 24000, pcm: pcm.buffer as ArrayBuffer, rate: style?.rate ?? 1, gain: style?.gain ?? 1, createdAt: Date.now() });
+      setChatHistory(prev => prev.map(m => m.id === messageId ? { ...m, audioId: id } : m));
+    } catch (err) {
+      console.error("Error caching reply audio:", redactForLog(err));
+    }
+  }, []);
+
+  const flushLiveReplyAudio = useCallback(() => {
+    const chunks = liveReplyAudioRef.current;
+    liveReplyAudioRef.current = [];
+    if (liveAiMessageIdRef.current) storeReplyAudio(liveAiMessageIdRef.current, chunks);
+    liveAiMessageIdRef.current = null;
+  }, [storeReplyAudio]);
+
+  // The one place both the typed and live paths get their system instruction from.
+  const buildPersonaPrompt = (currentFusion: FusionResult, history: ChatMessage[]) =>
+    buildSystemPrompt(resolvePersona(personaSettings), {
+      emotion: currentFusion.emotion,
+      confidence: currentFusion.confidence,
+      userName: personaSettings.userName,
+      sessionContext: describeSessionContext(history),
+    });
+
+  const handleSaveSpeechStyles = (table: SpeechStyleTable) => {
+    saveSpeechStyles(table);
+    setSpeechStyles(table);
+  };
+
+  const handleSaveSettings = (settings: PersonaSettingsValue) => {
+    savePersonaSettings(settings);
+    setPersonaSettings(settings);
+  };
+
+  const reportSpeechError = (err: unknown, messageId: string) => {
+    const error = handleApiError(err, "generating speech");
+    setErrorNotice({ message: error.message, onRetry: canRetryError(error.kind) ? () => respeakMessage(messageId) : undefined });
+  };
+
+  // Synthesizes a reply's speech again after it failed the first time.
+  const respeakMessage = async (messageId: string) => {
+    const message = chatHistoryRef.current.find(m => m.id === messageId);
+    if (!message) return;
+    setErrorNotice(null);
+    stopAllAudio();
+    const style = message.emotion ? speechStyles[message.emotion.emotion] : undefined;
+    setIsLoadingAudio(true);
+    try {
+        const audio = await provider.generateSpeech(message.text, message.voice ?? selectedVoice, style);
+        if (audio) {
+            await playTypedSpeech(audio, style);
+            storeReplyAudio(message.id, [audio], style);
+        }
+    } catch (err) {
+        reportSpeechError(err, messageId);
+    } finally {
+        setIsLoadingAudio(false);
+    }
+  };
+
+  /**
+   * @param baseHistory The conversation the message follows; differs from `chatHistory` when retrying a failed reply.
+   */
+  const handleSendMessage = async (text: string, baseHistory: ChatMessage[] = chatHistory) => {
     if (!text.trim() || isGenerating || isLiveActive) return;
 
     stopAllAudio();
-    const userMessage: ChatMessage = { sender: 'user', text };
-    const currentChatHistory = [...chatHistory, userMessage];
-    setChatHistory([...currentChatHistory, { sender: 'ai', text: '...' }]);
+    setErrorNotice(null);
+    const currentFusion = registerTextEmotion(text);
+
+    const crisis = screenForCrisis(text);
+    if (crisis) {
+        // Flagged messages never reach the model, now or later as history; see withoutCrisisMessages.
+        const reply = buildSafeMessagingReply(crisis.categories, helplineRegion);
+        const replyMessage = createChatMessage('ai', reply, 'typed', { emotion: currentFusion, voice: selectedVoice, crisis: crisis.categories });
+        setChatHistory(prev => [
+            ...prev,
+            createChatMessage('user', text, 'typed', { emotion: currentFusion, crisis: crisis.categories }),
+            replyMessage,
+        ]);
+        setInputText('');
+        setIsLoadingAudio(true);
+        try {
+            const style = speechStyles[currentFusion.emotion];
+            const audio = await provider.generateSpeech(reply, selectedVoice, style);
+            if (audio) {
+                await playTypedSpeech(audio, style);
+                storeReplyAudio(replyMessage.id, [audio], style);
+            }
+        } catch (err) {
+            reportSpeechError(err, replyMessage.id);
+        } finally {
+            setIsLoadingAudio(false);
+        }
+        return;
+    }
+
+    const userMessage = createChatMessage('user', text, 'typed', { emotion: currentFusion });
+    const aiMessage = createChatMessage('ai', '...', 'typed', { emotion: currentFusion, voice: selectedVoice });
+    setChatHistory([...baseHistory, userMessage, aiMessage]);
+    const modelHistory = withoutCrisisMessages(baseHistory);
     setIsGenerating(true);
     setInputText('');
 
-    try {
-        const aiText = await generateEmpatheticResponse(text, fusedEmotion, currentChatHistory);
-        
-        setChatHistory(prev => {
-            const newHistory = [...prev];
-            const lastMessage = newHistory[newHistory.length - 1];
-            if (lastMessage.sender === 'ai') {
-                lastMessage.text = aiText;
-            }
-            return newHistory;
-        });
-        
-        setIsLoadingAudio(true);
-        const audioData = await generateSpeech(aiText, selectedVoice);
+    // The whole reply keeps the delivery matching the mood it was written for.
+    const speechStyle = speechStyles[currentFusion.emotion];
+    const replyAudio: string[] = [];
+    const speechQueue = createSpeechQueue({
+        synthesize: (sentence) => provider.generateSpeech(sentence, selectedVoice, speechStyle),
+        play: (audio) => {
+            replyAudio.push(audio);
+            return playTypedSpeech(audio, speechStyle);
+        },
+        onError: (err) => reportSpeechError(err, aiMessage.id),
+    });
+    speechQueueRef.current = speechQueue;
+    const sentenceChunker = createSentenceChunker();
+    let aiText = '';
 
-        if (audioData) {
-            if (!outputAudioContextRef.current || outputAudioContextRef.current.state === 'closed') {
-                outputAudioContextRef.current = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: 24000 });
-            }
-            const audioBuffer = await decodeAudioData(decode(audioData), outputAudioContextRef.current, 24000, 1);
-            const source = outputAudioContextRef.current.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(outputAudioContextRef.current.destination);
-            source.start();
+    try {
+        const systemInstruction = buildPersonaPrompt(currentFusion, modelHistory);
+        for await (const delta of provider.streamResponse(text, currentFusion.emotion, [...modelHistory, userMessage], systemInstruction)) {
+            aiText += delta;
+            const partialText = aiText;
+            setChatHistory(prev => prev.map(m => m.id === aiMessage.id ? { ...m, text: partialText } : m));
+            sentenceChunker.push(delta).forEach(speechQueue.enqueue);
         }
+        const remainder = sentenceChunker.flush();
+        if (remainder) speechQueue.enqueue(remainder);
 
+        setIsGenerating(false);
+        setIsLoadingAudio(true);
+        // A cut-off or failed reply is not worth replaying, so only complete audio is kept.
+        if (await speechQueue.drain()) storeReplyAudio(aiMessage.id, replyAudio, speechStyle);
     } catch (err) {
-        handleApiError(err, "generating empathetic response");
-        setChatHistory(prev => prev.map(m => m.text === '...' ? { sender: 'ai', text: 'Sorry, an error occurred.' } : m));
+        // Sentences already queued would otherwise keep being synthesized and played after the failure.
+        speechQueue.cancel();
+        const error = handleApiError(err, "generating empathetic response");
+        // Keep whatever streamed in before the failure.
+        setChatHistory(prev => prev.map(m => m.id === aiMessage.id ? { ...m, text: aiText, error: error.kind } : m));
     } finally {
+        if (speechQueueRef.current === speechQueue) speechQueueRef.current = null;
         setIsGenerating(false);
         setIsLoadingAudio(false);
     }
   };
 
+  const sendLiveEmotionUpdate = useCallback((result: FusionResult) => {
+    sessionPromiseRef.current?.then(session => session.sendEmotionUpdate(result)).catch(logError);
+  }, []);
+  const canSendLiveEmotionUpdate = useCallback(() => {
+    const phase = lifecycle.getPhase();
+    return phase === 'listening' || phase === 'user-speaking';
+  }, [lifecycle.getPhase]);
+  const liveEmotionUpdates = useLiveEmotionUpdates(isLiveActive, sampleFusion, sendLiveEmotionUpdate, canSendLiveEmotionUpdate);
+
+  // Speaks the safe-messaging reply in place of the model's answer to a flagged live turn.
+  const deliverLiveCrisisReply = useCallback((categories: CrisisCategory[]) => {
+    const reply = buildSafeMessagingReply(categories, helplineRegionRef.current);
+    const currentFusion = fusionRef.current.fuse(Date.now());
+    const style = speechStyles[currentFusion.emotion];
+    const replyMessage = createChatMessage('ai', reply, 'live', { emotion: currentFusion, voice: selectedVoice, crisis: categories });
+    setChatHistory(prev => [...prev, replyMessage]);
+    provider.generateSpeech(reply, selectedVoice, style)
+      .then(async audio => {
+        if (!audio) return;
+        await playTypedSpeech(audio, style);
+        storeReplyAudio(replyMessage.id, [audio], style);
+      })
+      .catch(err => reportSpeechError(err, replyMessage.id));
+  }, [provider, selectedVoice, speechStyles, playTypedSpeech, storeReplyAudio]);
+
+  const handleHelplineRegionChange = (region: string) => {
+    setHelplineRegion(region);
+    helplineRegionRef.current = region;
+    setHelplineRegionState(region);
+  };
+
+  const stopLiveMicrophone = useCallback(() => {
+    audioCaptureRef.current?.stop();
+    audioCaptureRef.current = null;
+    setInputAnalyser(null);
+    liveAudioStreamRef.current?.getTracks().forEach(track => track.stop());
+    liveAudioStreamRef.current = null;
+  }, []);
+
+  /**
+   * Opens a microphone and streams it into the live session. Also used to switch
+   * microphones mid-session without reconnecting.
+   */
+  const startLiveMicrophone = useCallback(async (deviceId?: string): Promise<{ usedFallback: boolean }> => {
+    const { stream, usedFallback } = await openInputDevice('audioinput', deviceId);
+    liveAudioStreamRef.current = stream;
+    stream.getAudioTracks().forEach(track => track.addEventListener('ended', () => {
+      if (liveAudioStreamRef.current === stream) microphoneLostRef.current();
+    }));
+
+    const capture = await startAudioCapture(stream, {
+      onChunk: ({ pcm, samples, rms }) => {
+        const vocalResult = vocalAnalyzerRef.current.process(samples, CAPTURE_SAMPLE_RATE);
+        if (vocalResult) {
+          setVocalEmotion(vocalResult.emotion);
+          setVocalScores(vocalResult.scores);
+          if (vocalResult.isSpeech) {
+            addEmotionObservation('voice', vocalResult.scores);
+          }
+        }
+        const pcmBlob: GenAI_Blob = {
+          data: encode(new Uint8Array(pcm.buffer)),
+          mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`,
+        };
+        const chunkMs = (pcm.length / CAPTURE_SAMPLE_RATE) * 1000;
+        const activity = voiceActivityRef.current.process(rms, chunkMs);
+
+        if (activity.event === 'speech-start') {
+          // Barge-in: stop the assistant the moment the user starts talking over it.
+          const outputLevel = outputAnalyserRef.current ? analyserLevel(outputAnalyserRef.current) : 0;
+          if (playbackSourcesRef.current.size > 0 && isBargeIn(rms, outputLevel)) {
+            stopAllAudio();
+            markLiveReplyInterrupted();
+            suppressAiAudioRef.current = lifecycle.getPhase() === 'ai-speaking';
+          }
+          const preRoll = preRollRef.current;
+          preRollRef.current = [];
+          sessionPromiseRef.current?.then(session => preRoll.forEach(chunk => session.sendAudio(chunk)));
+        }
+
+        // Only speech is streamed upstream; silence is kept briefly as pre-roll.
+        if (activity.isSpeech || activity.event === 'speech-end') {
+          sessionPromiseRef.current?.then((session) => {
+            session.sendAudio(pcmBlob);
+            if (activity.event === 'speech-end') session.endAudioStream();
+          });
+        } else {
+          preRollRef.current.push(pcmBlob);
+          const maxChunks = Math.ceil(voiceActivityRef.current.preRollMs / chunkMs);
+          if (preRollRef.current.length > maxChunks) preRollRef.current.shift();
+        }
+      },
+    });
+    // The session may have closed while the worklet was loading.
+    if (!sessionPromiseRef.current) {
+      capture.stop();
+      stream.getTracks().forEach(track => track.stop());
+      return { usedFallback };
+    }
+    audioCaptureRef.current = capture;
+    const analyser = capture.context.createAnalyser();
+    analyser.fftSize = 1024;
+    capture.source.connect(analyser);
+    setInputAnalyser(analyser);
+    return { usedFallback };
+  }, [stopAllAudio, markLiveReplyInterrupted, addEmotionObservation, lifecycle.getPhase]);
+
+  const switchLiveMicrophone = async (deviceId?: string) => {
+    stopLiveMicrophone();
+    voiceActivityRef.current.reset();
+    preRollRef.current = [];
+    try {
+      const { usedFallback } = await startLiveMicrophone(deviceId);
+      if (usedFallback) setDeviceNotice('Your chosen microphone is not connected. Using the default microphone.');
+      return true;
+    } catch (err) {
+      console.error("Error switching microphone:", redactForLog(err));
+      return false;
+    }
+  };
+
+  // An unplugged headset falls back to the default microphone instead of ending the call.
+  const handleMicrophoneLost = async () => {
+    if (!sessionPromiseRef.current) return;
+    if (await switchLiveMicrophone()) {
+      setDeviceNotice('Microphone disconnected. Switched to the default microphone.');
+    } else {
+      setDeviceNotice('Microphone disconnected and no other microphone is available. Plug one in and start the live session again.');
+      lifecycle.dispatch({ type: 'disconnect' });
+    }
+  };
+  microphoneLostRef.current = handleMicrophoneLost;
+
+  const handleCameraLost = async () => {
+    const result = await startStream();
+    if (result?.superseded) return;
+    if (result) {
+      setDeviceNotice('Camera disconnected. Switched to the default camera.');
+    } else {
+      setDeviceNotice('Camera disconnected and no other camera is available. Plug one in and start the session again.');
+      stopStream();
+      setIsSessionActive(false);
+    }
+  };
+
+  const applyAudioOutput = useCallback((deviceId?: string) => {
+    audioOutputIdRef.current = deviceId;
+    outputAnalysersRef.current.forEach((_, ctx) => {
+      if (ctx.state === 'closed') {
+        outputAnalysersRef.current.delete(ctx);
+        return;
+      }
+      setAudioOutputDevice(ctx, deviceId).catch(logError);
+    });
+  }, []);
+
+  const handleDeviceChange = async (kind: DeviceKind, deviceId: string | undefined) => {
+    mediaDevices.selectDevice(kind, deviceId);
+    setDeviceNotice(null);
+    if (kind === 'videoinput' && isSessionActive) {
+      const result = await startStream(deviceId);
+      if (result?.usedFallback) setDeviceNotice('That camera is not connected. Using the default camera.');
+    } else if (kind === 'audioinput' && audioCaptureRef.current) {
+      if (!(await switchLiveMicrophone(deviceId))) {
+        setDeviceNotice('Could not open that microphone. Pick another one or restart the live session.');
+      }
+    } else if (kind === 'audiooutput') {
+      applyAudioOutput(deviceId);
+    }
+  };
+
+  // Follow the chosen speaker as it is unplugged and plugged back in.
+  useEffect(() => {
+    const preferred = mediaDevices.preferences.audiooutput;
+    const isAvailable = !preferred || mediaDevices.devices.audiooutput.some(d => d.deviceId === preferred);
+    // An empty list means devices have not been listed yet, not that the speaker is gone.
+    if (!isAvailable && mediaDevices.devices.audiooutput.length === 0) return;
+    const target = isAvailable ? preferred : undefined;
+    if (audioOutputIdRef.current === target) return;
+    if (audioOutputIdRef.current === preferred && !isAvailable) {
+      setDeviceNotice('Speaker disconnected. Playing through the default output.');
+    }
+    applyAudioOutput(target);
+  }, [mediaDevices.devices, mediaDevices.preferences.audiooutput, applyAudioOutput]);
+
+  // Device names only become readable once camera or microphone access is granted.
+  useEffect(() => {
+    if (stream || inputAnalyser) mediaDevices.refresh();
+  }, [stream, inputAnalyser, mediaDevices.refresh]);
+
+  /** Releases everything a live session holds; run by the lifecycle whenever the session ends. */
+  const teardownLiveSession = () => {
+    stopLiveMicrophone();
+    outputAudioContextRef.current?.close().catch(logError);
+    outputAudioContextRef.current = null;
+    crisisTurnRef.current = null;
+    flushLiveReplyAudio();
+    resetVocalEmotion();
+    sessionPromiseRef.current?.then(session => session.close()).catch(() => {});
+    sessionPromiseRef.current = null;
+  };
+
   const handleToggleLiveSession = useCallback(async () => {
     stopAllAudio();
 
     if (isLiveActive) {
-      sessionPromiseRef.current?.then(session => session.close());
-      return; // onclose callback will handle state updates
+      lifecycle.dispatch({ type: 'disconnect' });
+      return;
     }
     
-    setMediaError(null);
-    setIsLiveActive(true);
+    lifecycle.dispatch({ type: 'connect' });
+    resetVocalEmotion();
+    voiceActivityRef.current.reset();
+    preRollRef.current = [];
+    suppressAiAudioRef.current = false;
+    crisisTurnRef.current = null;
+    liveReplyAudioRef.current = [];
+    liveAiMessageIdRef.current = null;
 
     const callbacks = {
         onopen: async () => {
           try {
-            inputAudioContextRef.current = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: 16000 });
             outputAudioContextRef.current = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: 24000 });
             nextStartTimeRef.current = 0;
   
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            liveAudioStreamRef.current = stream;
-  
-            mediaStreamSourceRef.current = inputAudioContextRef.current.createMediaStreamSource(stream);
-            scriptProcessorRef.current = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessorRef.current.onaudioprocess = (audioProcessingEvent) => {
-              const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-              const int16Data = float32ToInt16(inputData);
-              const pcmBlob: GenAI_Blob = {
-                data: encode(new Uint8Array(int16Data.buffer)),
-                mimeType: 'audio/pcm;rate=16000',
-              };
-              sessionPromiseRef.current?.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-  
-            mediaStreamSourceRef.current.connect(scriptProcessorRef.current);
-            scriptProcessorRef.current.connect(inputAudioContextRef.current.destination);
+            const { usedFallback } = await startLiveMicrophone(mediaDevices.preferences.audioinput);
+            if (usedFallback) setDeviceNotice('Your chosen microphone is not connected. Using the default microphone.');
+            lifecycle.dispatch({ type: 'connected' });
           } catch(err) {
-            console.error("Error initializing live session:", err);
-            setMediaError("Could not start live session. Please check microphone permissions and refresh the page.");
-            sessionPromiseRef.current?.then(session => session.close());
+            console.error("Error initializing live session:", redactForLog(err));
+            lifecycle.dispatch({ type: 'fail', message: errorMessage(err, "Could not start live session. Please check microphone permissions and refresh the page.") });
           }
         },
         onmessage: async (message: LiveServerMessage) => {
             // Handle User Input Transcription
             if (message.serverContent?.inputTranscription) {
-                const textChunk = message.serverContent.inputTranscription.text;
-                if (!isUserTurnActive.current) {
-                    isUserTurnActive.current = true;
-                    isAiTurnActive.current = false; // User speaking interrupts AI
-                    setChatHistory(prev => [...prev, { sender: 'user', text: textChunk }]);
+                const textChunk = message.serverContent.inputTranscription.text ?? '';
+                const isNewTurn = lifecycle.getPhase() !== 'user-speaking';
+                liveUserTurnTextRef.current = isNewTurn ? textChunk : liveUserTurnTextRef.current + textChunk;
+                if (isNewTurn) liveUserTurnCountRef.current += 1;
+                // The whole turn so far is one utterance: one text observation, updated as transcription arrives.
+                const turnFusion = registerTextEmotion(liveUserTurnTextRef.current, `live-turn-${liveUserTurnCountRef.current}`);
+                const crisis = screenForCrisis(liveUserTurnTextRef.current);
+                if (crisis) {
+                    if (!crisisTurnRef.current) {
+                        // Cut off whatever the model is saying and let it know for the rest of the session.
+                        stopAllAudio();
+                        sessionPromiseRef.current?.then(session => session.sendContext(
+                            `[Safety notice: the user may be in crisis (${crisis.categories.join(', ')}). They have been shown helpline resources. Stay calm and supportive, and encourage them to reach out to those services.]`,
+                        )).catch(logError);
+                    }
+                    crisisTurnRef.current = { categories: crisis.categories, replied: crisisTurnRef.current?.replied ?? false };
+                }
+                if (isNewTurn) {
+                    lifecycle.dispatch({ type: 'user-speech' }); // User speaking interrupts AI
+                    setChatHistory(prev => [...prev, createChatMessage('user', textChunk, 'live', { emotion: turnFusion, crisis: crisis?.categories })]);
                 } else {
                     setChatHistory(prev => {
                         const newHistory = [...prev];
                         const lastMessage = newHistory[newHistory.length - 1];
                         if (lastMessage && lastMessage.sender === 'user') {
                             lastMessage.text += textChunk;
+                            lastMessage.emotion = turnFusion;
+                            if (crisis) lastMessage.crisis = crisis.categories;
                         }
                         return newHistory;
                     });
                 }
             }
 
+            // A flagged turn gets the safe-messaging reply as soon as the model starts answering.
+            const crisisTurn = crisisTurnRef.current;
+            if (crisisTurn && !crisisTurn.replied && (message.serverContent?.outputTranscription || message.serverContent?.modelTurn || message.serverContent?.turnComplete)) {
+                crisisTurn.replied = true;
+                lifecycle.dispatch({ type: 'ai-speech' });
+                deliverLiveCrisisReply(crisisTurn.categories);
+            }
+
             // Handle AI Output Transcription
-            if (message.serverContent?.outputTranscription) {
-                const textChunk = message.serverContent.outputTranscription.text;
-                if (!isAiTurnActive.current) {
-                    isAiTurnActive.current = true;
-                    isUserTurnActive.current = false; // AI speaking means user is done
-                    setChatHistory(prev => [...prev, { sender: 'ai', text: textChunk }]);
+            if (message.serverContent?.outputTranscription && !crisisTurnRef.current) {
+                const textChunk = message.serverContent.outputTranscription.text ?? '';
+                if (lifecycle.getPhase() !== 'ai-speaking') {
+                    lifecycle.dispatch({ type: 'ai-speech' }); // AI speaking means user is done
+                    const aiMessage = createChatMessage('ai', textChunk, 'live', { emotion: fusionRef.current.fuse(Date.now()), voice: selectedVoice });
+                    liveAiMessageIdRef.current = aiMessage.id;
+                    setChatHistory(prev => [...prev, aiMessage]);
                 } else {
                     setChatHistory(prev => {
                         const newHistory = [...prev];
@@ -307,116 +823,234 @@ const App: React.FC = () => {
                 }
             }
             
+            // The server detected the user talking over the reply and dropped the rest of it.
+            if (message.serverContent?.interrupted) {
+                if (lifecycle.getPhase() === 'ai-speaking' && !suppressAiAudioRef.current) markLiveReplyInterrupted();
+                stopAllAudio();
+                flushLiveReplyAudio();
+                lifecycle.dispatch({ type: 'turn-complete' });
+                suppressAiAudioRef.current = false;
+            }
+
             if (message.serverContent?.turnComplete) {
-                isUserTurnActive.current = false;
-                isAiTurnActive.current = false;
+                lifecycle.dispatch({ type: 'turn-complete' });
+                suppressAiAudioRef.current = false;
+                crisisTurnRef.current = null;
+                flushLiveReplyAudio();
             }
 
             const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (base64Audio && outputAudioContextRef.current) {
+            if (base64Audio && outputAudioContextRef.current && !suppressAiAudioRef.current && !crisisTurnRef.current) {
                 nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioContextRef.current.currentTime);
                 const audioBuffer = await decodeAudioData(decode(base64Audio), outputAudioContextRef.current, 24000, 1);
                 const source = outputAudioContextRef.current.createBufferSource();
                 source.buffer = audioBuffer;
-                source.connect(outputAudioContextRef.current.destination);
-                source.onended = () => liveAudioSourcesRef.current.delete(source);
+                source.connect(getOutputNode(outputAudioContextRef.current));
+                source.onended = () => playbackSourcesRef.current.delete(source);
                 source.start(nextStartTimeRef.current);
                 nextStartTimeRef.current += audioBuffer.duration;
-                liveAudioSourcesRef.current.add(source);
+                playbackSourcesRef.current.add(source);
+                liveReplyAudioRef.current.push(base64Audio);
             }
         },
-        onerror: (e: ErrorEvent) => {
-          console.error("Live session error:", e);
-          setMediaError("Live session connection error. Please try again.");
-          setIsLiveActive(false);
+        onreconnecting: (attempt: number, delayMs: number) => {
+          console.warn(`Live session dropped; reconnect attempt ${attempt} in ${delayMs}ms.`);
+          lifecycle.dispatch({ type: 'connection-lost' });
+          // The interrupted reply will never complete, so keep what was heard of it.
+          flushLiveReplyAudio();
+          suppressAiAudioRef.current = false;
+          const crisisTurn = crisisTurnRef.current;
+          if (crisisTurn && !crisisTurn.replied) deliverLiveCrisisReply(crisisTurn.categories);
+          crisisTurnRef.current = null;
+        },
+        onreconnected: () => {
+          lifecycle.dispatch({ type: 'connected' });
+        },
+        onerror: (e: unknown) => {
+          handleApiError(e, "live session");
+          lifecycle.dispatch({ type: 'fail', message: errorMessage(e, "Lost the connection to the live session. Please check your network and try again.") });
         },
         onclose: () => {
-          scriptProcessorRef.current?.disconnect();
-          mediaStreamSourceRef.current?.disconnect();
-          liveAudioStreamRef.current?.getTracks().forEach(track => track.stop());
-          inputAudioContextRef.current?.close().catch(console.error);
-          outputAudioContextRef.current?.close().catch(console.error);
-          isUserTurnActive.current = false;
-          isAiTurnActive.current = false;
-          setIsLiveActive(false);
-          sessionPromiseRef.current = null;
+          lifecycle.dispatch({ type: 'closed' });
         },
     };
 
     try {
-        sessionPromiseRef.current = startLiveSession(fusedEmotion, selectedVoice, callbacks);
+        sessionPromiseRef.current = connectReconnectingLiveSession((sessionCallbacks, isResume) => {
+            const history = chatHistoryRef.current;
+            const currentFusion = isResume ? fusionRef.current.fuse(Date.now()) : fusion;
+            // The new connection only knows the emotion in its prompt, so later updates are measured from that.
+            liveEmotionUpdates.resetBaseline(currentFusion.emotion);
+            const systemInstruction = buildPersonaPrompt(currentFusion, withoutCrisisMessages(history));
+            return provider.connectLive(
+                currentFusion.emotion,
+                selectedVoice,
+                isResume ? `${systemInstruction}\n\n${buildResumeContext(history)}` : systemInstruction,
+                sessionCallbacks,
+            );
+        }, callbacks);
+        sessionPromiseRef.current.catch(err => {
+            const error = handleApiError(err, "starting live session");
+            lifecycle.dispatch({ type: 'fail', message: errorMessage(error, "Could not connect to the live session. Please try again.") });
+        });
     } catch(err) {
-        handleApiError(err, "starting live session");
-        setIsLiveActive(false);
+        const error = handleApiError(err, "starting live session");
+        lifecycle.dispatch({ type: 'fail', message: errorMessage(error, "Could not connect to the live session. Please try again.") });
+    }
+  }, [isLiveActive, lifecycle.dispatch, lifecycle.getPhase, provider, fusion, personaSettings, mediaDevices.preferences.audioinput, startLiveMicrophone, chatHistory, selectedVoice, stopAllAudio, markLiveReplyInterrupted, deliverLiveCrisisReply, flushLiveReplyAudio, getOutputNode, resetVocalEmotion, addEmotionObservation, registerTextEmotion, liveEmotionUpdates.resetBaseline]);
+
+  const handleExport = async (format: ExportFormat, includeAudio = false) => {
+    const stamp = new Date().toISOString();
+    if (format === 'json') {
+        let audio: Record<string, ExportedAudioClip> | undefined;
+        if (includeAudio) {
+            audio = {};
+            for (const message of chatHistory) {
+                const clip = message.audioId ? await loadAudioClip(message.audioId).catch(() => null) : null;
+                if (clip) audio[clip.id] = toExportedAudioClip(clip);
+            }
+        }
+        downloadFile(exportSessionJson(chatHistory, timeline, getApiKey(), audio), `session-${stamp}.json`, 'application/json');
+    } else {
+        downloadFile(exportSessionMarkdown(chatHistory, timeline, getApiKey()), `session-${stamp}.md`, 'text/markdown');
     }
-  }, [isLiveActive, fusedEmotion, selectedVoice, stopAllAudio]);
-
-  const exportLog = () => {
-    const logContent = chatHistory.map(msg => `[${msg.sender.toUpperCase()}] ${msg.text}`).join('\n');
-    const blob = new Blob([logContent], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `session-log-${new Date().toISOString()}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
   };
-  
-  const mapEmotion = (emotion: string): Emotion => {
-      const emotionMap: { [key: string]: Emotion } = {
-          happy: 'Happy',
-          sad: 'Sad',
-          angry: 'Angry',
-          surprised: 'Surprised',
-          neutral: 'Neutral',
-      };
-      return emotionMap[emotion] || 'Neutral';
+
+  // Sends the message behind a failed reply again, in place of the failed exchange.
+  const handleRetryReply = (failed: ChatMessage) => {
+    const index = chatHistory.findIndex(m => m.id === failed.id);
+    const prompt = chatHistory[index - 1];
+    if (index < 1 || prompt.sender !== 'user') return;
+    handleSendMessage(prompt.text, chatHistory.slice(0, index - 1));
+  };
+
+  // A failed live session takes precedence, since it has to be dismissed before starting over.
+  const chatErrorNotice: ErrorNotice | null = lifecycle.error
+    ? { message: lifecycle.error, onRetry: handleToggleLiveSession }
+    : errorNotice;
+
+  const handleDismissError = () => {
+    if (lifecycle.phase === 'error') lifecycle.dispatch({ type: 'disconnect' });
+    setErrorNotice(null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+        const imported = withFreshAudioIds(parseSessionExport(await file.text()));
+        stopAllAudio();
+        await Promise.all(Object.entries(imported.audio ?? {}).map(([id, clip]) => saveAudioClip(fromExportedAudioClip(id, clip))));
+        // Review an import as its own saved session rather than overwriting the current one.
+        await sessionHistory.startNewSession();
+        setChatHistory(imported.messages);
+        setTimeline(imported.timeline);
+        setMediaError(null);
+    } catch (err) {
+        console.error("Error importing session:", redactForLog(err));
+        setMediaError(err instanceof Error ? err.message : "Could not import the session file.");
+    }
+  };
+
+  const handlePinFace = (id: number | null) => {
+    pinnedFaceIdRef.current = id;
+    setPinnedFaceId(id);
+  };
+
+  const handleShowAllFaceEmotionsChange = (value: boolean) => {
+    showAllFaceEmotionsRef.current = value;
+    setShowAllFaceEmotions(value);
   };
 
   useEffect(() => {
-    let detectionInterval: number | null = null;
-    if (isSessionActive && modelsLoaded && videoRef.current) {
-        detectionInterval = window.setInterval(async () => {
-            const video = videoRef.current;
-            const canvas = overlayCanvasRef.current;
-            if (!video || video.paused || video.ended || !canvas) return;
-
-            const displaySize = { width: video.clientWidth, height: video.clientHeight };
-            faceapi.matchDimensions(canvas, displaySize);
-            const detections = await faceapi.detectSingleFace(video, new faceapi.TinyFaceDetectorOptions({ inputSize: 320 })).withFaceExpressions();
-            
-            const context = canvas.getContext('2d');
-            if (!context) return;
-            context.clearRect(0, 0, canvas.width, canvas.height);
-
-            if (detections) {
-                const resizedDetections = faceapi.resizeResults(detections, displaySize);
-                faceapi.draw.drawDetections(canvas, resizedDetections);
-                faceapi.draw.drawFaceExpressions(canvas, resizedDetections);
-                const expressions = detections.expressions;
-                const dominantEmotion = Object.keys(expressions).reduce((a, b) => (expressions as any)[a] > (expressions as any)[b] ? a : b);
-                setFacialEmotion(mapEmotion(dominantEmotion));
-            } else {
-                setFacialEmotion('Neutral');
+    const video = videoRef.current;
+    if (!isSessionActive || !modelsLoaded || !video) return;
+
+    faceIdentityRef.current.reset();
+    primaryFaceIdRef.current = null;
+    handlePinFace(null);
+    setTrackedFaces([]);
+    setPrimaryFaceId(null);
+
+    const stopDetection = getFaceDetection().startLoop(video, (faces, now) => {
+        const tracked = faceIdentityRef.current.update(faces, now);
+        // A pin outlives its track: once the pinned person leaves, the face reads as absent
+        // until the user pins them again or unpins, rather than switching to someone else.
+        const primary = selectPrimaryFace(tracked, pinnedFaceIdRef.current);
+
+        // Start the smoothing afresh when the emotions start coming from someone else.
+        if (primary && primary.id !== primaryFaceIdRef.current) {
+            if (primaryFaceIdRef.current !== null) {
+                facialTrackerRef.current.reset();
+                clearEmotionModality('face');
             }
-        }, 200);
-    }
+            primaryFaceIdRef.current = primary.id;
+        }
+
+        if (overlayCanvasRef.current) {
+            drawFaceOverlay(overlayCanvasRef.current, video, tracked, {
+                primaryId: primary?.id ?? null,
+                showAllEmotions: showAllFaceEmotionsRef.current,
+                showIds: isMultiFace,
+            });
+        }
+        if (isMultiFace) {
+            setTrackedFaces(tracked.map(face => ({
+                id: face.id,
+                emotion: dominantEmotion(faceExpressionsToScores(face.expressions)).emotion,
+                isVisible: face.isVisible,
+            })));
+            setPrimaryFaceId(primary?.id ?? null);
+        }
+
+        if (primary) {
+            const { state, changed } = facialTrackerRef.current.update(faceExpressionsToScores(primary.expressions), now);
+            if (changed) {
+                setFacialEmotion(state.emotion);
+                setFaceStatus(state.status);
+            }
+            addEmotionObservation('face', state.scores, primary.score);
+        } else {
+            const { state, changed } = facialTrackerRef.current.update(null, now);
+            if (changed) {
+                setFacialEmotion(state.emotion);
+                setFaceStatus(state.status);
+                if (state.status === 'no-face') clearEmotionModality('face');
+            }
+        }
+    }, isMultiFace);
     return () => {
-        if (detectionInterval) clearInterval(detectionInterval);
+        stopDetection();
         if (overlayCanvasRef.current) {
             overlayCanvasRef.current.getContext('2d')?.clearRect(0, 0, overlayCanvasRef.current.width, overlayCanvasRef.current.height);
         }
     };
-  }, [isSessionActive, modelsLoaded]);
+  }, [isSessionActive, modelsLoaded, isMultiFace, getFaceDetection, addEmotionObservation, clearEmotionModality]);
+
 
+  const handleSelectProvider = (id: ProviderId) => {
+    if (isGenerating || isLiveActive) return;
+    setProvider(setActiveProvider(id));
+  };
 
-  if (!apiKeySelected) {
-    return <ApiKeyModal onKeyProvided={() => {
+  // Removes the key from this browser entirely; the key prompt then comes back.
+  const handleClearApiKey = () => {
+    if (isLiveActive) lifecycle.dispatch({ type: 'disconnect' });
+    stopAllAudio();
+    clearSessionApiKey();
+    forgetSavedApiKey();
+    setIsApiKeyOpen(false);
+    setApiKeyError(false);
+    setApiKeySelected(false);
+  };
+
+  if (provider.requiresApiKey && !apiKeySelected) {
+    return <ApiKeyModal
+      onKeyProvided={() => {
         setApiKeySelected(true);
         setApiKeyError(false);
-    }} hadError={apiKeyError} />;
+      }}
+      onUseOfflineDemo={() => handleSelectProvider('mock')}
+      hadError={apiKeyError}
+    />;
   }
 
   if (!consentGiven) {
@@ -425,7 +1059,43 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-100 flex flex-col font-sans">
-      <Header theme={theme} onToggleTheme={toggleTheme} />
+      <Header
+        theme={theme}
+        onToggleTheme={toggleTheme}
+        onOpenHistory={() => setIsHistoryOpen(true)}
+        onOpenSettings={() => setIsSettingsOpen(true)}
+        onOpenApiKey={() => setIsApiKeyOpen(true)}
+        provider={provider}
+        onSelectProvider={handleSelectProvider}
+        isProviderLocked={isGenerating || isLiveActive}
+      />
+      {isApiKeyOpen && (
+        <ApiKeyModal
+          onKeyProvided={() => setIsApiKeyOpen(false)}
+          onUseOfflineDemo={() => { setIsApiKeyOpen(false); handleSelectProvider('mock'); }}
+          hadError={false}
+          onClose={() => setIsApiKeyOpen(false)}
+          onClearKey={handleClearApiKey}
+        />
+      )}
+      <PersonaSettings
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        settings={personaSettings}
+        onSave={handleSaveSettings}
+      />
+      <SessionSidebar
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        sessions={sessionHistory.sessions}
+        currentSessionId={sessionHistory.currentSessionId}
+        onNewSession={() => { sessionHistory.startNewSession(); setIsHistoryOpen(false); }}
+        onOpenSession={(id) => { sessionHistory.openSession(id); setIsHistoryOpen(false); }}
+        onRenameSession={sessionHistory.renameSession}
+        onDeleteSession={sessionHistory.deleteSession}
+        disabled={isGenerating || isLiveActive}
+        error={sessionHistory.storageError}
+      />
       <main className="flex-grow p-4 lg:p-6 grid grid-cols-1 lg:grid-cols-3 gap-4 lg:gap-6">
         <div className="lg:col-span-1 flex flex-col gap-4 lg:gap-6">
           <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-lg flex flex-col flex-grow">
@@ -443,15 +1113,49 @@ const App: React.FC = () => {
               isActive={isSessionActive} 
               onToggle={toggleSession}
               disabled={!modelsLoaded && !isSessionActive}
+              loadProgress={modelLoadProgress}
+              detector={faceDetector}
+              onDetectorChange={handleDetectorChange}
             />
+            {isSessionActive && (
+              <div className="mt-3">
+                <FacePicker
+                  isMultiFace={isMultiFace}
+                  onMultiFaceChange={setIsMultiFace}
+                  showAllEmotions={showAllFaceEmotions}
+                  onShowAllEmotionsChange={handleShowAllFaceEmotionsChange}
+                  faces={trackedFaces}
+                  primaryId={primaryFaceId}
+                  pinnedId={pinnedFaceId}
+                  onPin={handlePinFace}
+                />
+              </div>
+            )}
+            <div className="mt-3">
+              <DeviceSettings
+                devices={mediaDevices.devices}
+                preferences={mediaDevices.preferences}
+                onSelect={handleDeviceChange}
+                canSelectOutput={supportsOutputSelection()}
+                notice={deviceNotice}
+                onDismissNotice={() => setDeviceNotice(null)}
+              />
+            </div>
             {(mediaError || streamError) && <p className="text-red-500 mt-2 text-sm">{mediaError || streamError}</p>}
           </div>
           <EmotionDisplay 
             facialEmotion={facialEmotion} 
+            faceStatus={faceStatus}
             vocalEmotion={vocalEmotion} 
-            fusedEmotion={fusedEmotion}
+            vocalScores={vocalScores}
+            textEmotion={textEmotion}
+            fusion={fusion}
             isActive={isSessionActive}
+            isVocalActive={isLiveActive}
+            inputAnalyser={inputAnalyser}
+            outputAnalyser={outputAnalyser}
           />
+          <EmotionTimeline timeline={timeline} messages={chatHistory} />
         </div>
 
         <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow-lg flex flex-col h-[85vh] lg:h-auto">
@@ -460,15 +1164,28 @@ const App: React.FC = () => {
             onSendMessage={handleSendMessage}
             isGenerating={isGenerating}
             isLoadingAudio={isLoadingAudio}
-            onExport={exportLog}
+            onExport={handleExport}
+            audioPlayback={messagePlayer.playback}
+            onPlayAudio={(message) => { stopAllAudio(); messagePlayer.play(message); }}
+            onPauseAudio={messagePlayer.pause}
+            onResumeAudio={messagePlayer.resume}
+            onImport={handleImport}
             isLive={isLiveActive}
+            isReconnecting={lifecycle.phase === 'reconnecting'}
             onToggleLiveSession={handleToggleLiveSession}
             inputText={inputText}
             onInputChange={setInputText}
             voices={ttsVoices}
             selectedVoice={selectedVoice}
             onVoiceChange={setSelectedVoice}
+            speechStyles={speechStyles}
+            onSpeechStylesChange={handleSaveSpeechStyles}
             mediaError={mediaError}
+            errorNotice={chatErrorNotice}
+            onDismissError={handleDismissError}
+            onRetryReply={handleRetryReply}
+            helplineRegion={helplineRegion}
+            onHelplineRegionChange={handleHelplineRegionChange}
           />
         </div>
       </main>
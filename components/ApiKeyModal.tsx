@@ -1,19 +1,70 @@
-
 import React, { useState } from 'react';
+import { XMarkIcon } from './icons';
+import {
+  forgetSavedApiKey, getSessionApiKey, hasSavedApiKey, maskApiKey, saveApiKey, setSessionApiKey, unlockSavedApiKey,
+} from '../services/apiKeyManager';
+import { validateApiKey } from '../services/geminiService';
+import { errorMessage } from '../services/serviceErrors';
 
 interface ApiKeyModalProps {
   onKeyProvided: () => void;
+  onUseOfflineDemo: () => void;
   hadError: boolean;
+  // Given when opened from the header to replace or clear a working key; the dialog can then be dismissed.
+  onClose?: () => void;
+  onClearKey?: () => void;
 }
 
-const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onKeyProvided, hadError }) => {
-  const [localApiKey, setLocalApiKey] = useState('');
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onKeyProvided, onUseOfflineDemo, hadError, onClose, onClearKey }) => {
   const isStudioEnv = !!window.aistudio;
+  const currentKey = getSessionApiKey();
+  const [mode, setMode] = useState<'unlock' | 'enter'>(() => hasSavedApiKey() && !currentKey ? 'unlock' : 'enter');
+  const [localApiKey, setLocalApiKey] = useState('');
+  const [remember, setRemember] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(hasSavedApiKey);
 
-  const handleSaveLocalKey = () => {
-    if (localApiKey.trim()) {
-      sessionStorage.setItem('gemini-api-key', localApiKey.trim());
-      onKeyProvided();
+  const passphraseProblem = !remember
+    ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH
+    ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`
+    : passphrase !== confirmPassphrase
+    ? 'The passphrases do not match.'
+    : null;
+  const canSave = mode === 'unlock' ? !!passphrase : !!localApiKey.trim() && !passphraseProblem;
+
+  // The key is only accepted once a request made with it succeeds.
+  const acceptKey = async (apiKey: string, persist: boolean) => {
+    await validateApiKey(apiKey);
+    setSessionApiKey(apiKey);
+    if (persist) {
+      await saveApiKey(apiKey, passphrase);
+    } else if (mode === 'enter') {
+      // A key saved earlier would otherwise come back in place of this one.
+      forgetSavedApiKey();
+    }
+    onKeyProvided();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave || isChecking) return;
+    setIsChecking(true);
+    setError(null);
+    try {
+      if (mode === 'unlock') {
+        await acceptKey(await unlockSavedApiKey(passphrase), false);
+      } else {
+        await acceptKey(localApiKey.trim(), remember);
+      }
+    } catch (err) {
+      setError(errorMessage(err, err instanceof Error ? err.message : undefined));
+      setIsChecking(false);
     }
   };
 
@@ -24,50 +75,150 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onKeyProvided, hadError }) =>
     }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!isStudioEnv) {
-        handleSaveLocalKey();
-    }
+  const handleForgetSavedKey = () => {
+    forgetSavedApiKey();
+    setIsSaved(false);
+    if (mode === 'unlock') setMode('enter');
   };
 
+  const switchMode = (next: 'unlock' | 'enter') => {
+    setMode(next);
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setError(null);
+  };
+
+  const inputClasses = "w-full bg-gray-100 dark:bg-gray-700 rounded-md py-2 px-3 text-gray-900 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-500";
+  const linkClasses = "text-sm text-gray-500 dark:text-gray-400 hover:text-cyan-600 dark:hover:text-cyan-400 hover:underline";
+
   return (
     <div className="fixed inset-0 bg-gray-900/75 dark:bg-black/75 flex items-center justify-center z-50 p-4">
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 md:p-8 max-w-lg w-full transform transition-all animate-fade-in-up">
-        <h2 className="text-2xl font-bold text-cyan-600 dark:text-cyan-400 mb-4">API Key Required</h2>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 md:p-8 max-w-lg w-full max-h-[90vh] overflow-y-auto transform transition-all animate-fade-in-up">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-cyan-600 dark:text-cyan-400">{onClose ? 'API Key' : 'API Key Required'}</h2>
+          {onClose && (
+            <button type="button" onClick={onClose} className="p-1 rounded text-gray-500 hover:text-gray-900 dark:hover:text-white" aria-label="Close API key settings">
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          )}
+        </div>
         {hadError && (
           <p className="text-red-500 dark:text-red-400 mb-4 bg-red-500/10 p-3 rounded-md">
             The provided API key appears to be invalid or has expired. Please provide a new one to continue.
           </p>
         )}
         <p className="text-gray-600 dark:text-gray-300 mb-6">
-          This application requires a Google AI API key to function. 
-          {isStudioEnv 
-            ? "Using your own key helps manage usage and prevent quota errors." 
-            : "Please enter your key below. It will be stored in your browser's session storage and will not be saved elsewhere."}
+          This application requires a Google AI API key to function.
+          {isStudioEnv
+            ? "Using your own key helps manage usage and prevent quota errors."
+            : "It is kept in this tab's session storage, or, if you choose to remember it, encrypted with your passphrase in this browser. It is never sent anywhere except to Google."}
         </p>
-        
+
+        {onClose && !isStudioEnv && (
+          <div className="mb-6 rounded-md bg-gray-100 dark:bg-gray-700/50 p-3 text-sm space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-gray-600 dark:text-gray-300">
+                Current key: <span className="font-mono">{currentKey ? maskApiKey(currentKey) : 'none'}</span>
+              </span>
+              {onClearKey && currentKey && (
+                <button type="button" onClick={onClearKey} className="text-red-600 dark:text-red-400 hover:underline">
+                  Clear key
+                </button>
+              )}
+            </div>
+            {isSaved && (
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-gray-600 dark:text-gray-300">Remembered on this device (encrypted)</span>
+                <button type="button" onClick={handleForgetSavedKey} className="text-red-600 dark:text-red-400 hover:underline">
+                  Forget
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
         {!isStudioEnv && (
-          <form onSubmit={handleSubmit} className="mb-6">
-            <label htmlFor="apiKeyInput" className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">
-              Your Gemini API Key
-            </label>
-            <input
-              id="apiKeyInput"
-              type="password"
-              value={localApiKey}
-              onChange={(e) => setLocalApiKey(e.target.value)}
-              placeholder="Enter your API key here"
-              className="w-full bg-gray-100 dark:bg-gray-700 rounded-md py-2 px-3 text-gray-900 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-500"
-            />
+          <form id="apiKeyForm" onSubmit={handleSubmit} className="mb-6 space-y-3">
+            {mode === 'unlock' ? (
+              <>
+                <label htmlFor="apiKeyPassphrase" className="block text-sm font-medium text-gray-500 dark:text-gray-400">
+                  Enter your passphrase to unlock the key saved on this device
+                </label>
+                <input
+                  id="apiKeyPassphrase"
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  autoComplete="current-password"
+                  className={inputClasses}
+                />
+                <button type="button" onClick={() => switchMode('enter')} className={linkClasses}>
+                  Use a different key
+                </button>
+              </>
+            ) : (
+              <>
+                <label htmlFor="apiKeyInput" className="block text-sm font-medium text-gray-500 dark:text-gray-400">
+                  {currentKey ? 'Replace with a new Gemini API key' : 'Your Gemini API Key'}
+                </label>
+                <input
+                  id="apiKeyInput"
+                  type="password"
+                  value={localApiKey}
+                  onChange={(e) => setLocalApiKey(e.target.value)}
+                  placeholder="Enter your API key here"
+                  autoComplete="off"
+                  className={inputClasses}
+                />
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                  <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} className="accent-cyan-600" />
+                  Remember on this device, encrypted with a passphrase
+                </label>
+                {remember && (
+                  <>
+                    <input
+                      type="password"
+                      value={passphrase}
+                      onChange={(e) => setPassphrase(e.target.value)}
+                      placeholder="Passphrase"
+                      autoComplete="new-password"
+                      aria-label="Passphrase"
+                      className={inputClasses}
+                    />
+                    <input
+                      type="password"
+                      value={confirmPassphrase}
+                      onChange={(e) => setConfirmPassphrase(e.target.value)}
+                      placeholder="Repeat passphrase"
+                      autoComplete="new-password"
+                      aria-label="Repeat passphrase"
+                      className={inputClasses}
+                    />
+                    {passphrase && passphraseProblem && <p className="text-xs text-amber-600 dark:text-amber-400">{passphraseProblem}</p>}
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      You will need the passphrase each time you open the app. It cannot be recovered if forgotten.
+                    </p>
+                  </>
+                )}
+                {isSaved && !onClose && (
+                  <button type="button" onClick={() => switchMode('unlock')} className={linkClasses}>
+                    Unlock the key saved on this device instead
+                  </button>
+                )}
+              </>
+            )}
+            {error && <p role="alert" className="text-sm text-red-500 dark:text-red-400">{error}</p>}
           </form>
         )}
-        
+
         <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
           For information on billing and quotas, please visit the official documentation: <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-cyan-600 dark:text-cyan-400 hover:underline">ai.google.dev/gemini-api/docs/billing</a>.
         </p>
-        
-        <div className="flex justify-end">
+
+        <div className="flex items-center justify-between gap-4">
+          <button onClick={onUseOfflineDemo} className={linkClasses}>
+            Try the offline demo instead
+          </button>
           {isStudioEnv ? (
             <button
               onClick={handleSelectStudioKey}
@@ -77,11 +228,12 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onKeyProvided, hadError }) =>
             </button>
           ) : (
             <button
-              onClick={handleSaveLocalKey}
-              disabled={!localApiKey.trim()}
+              type="submit"
+              form="apiKeyForm"
+              disabled={!canSave || isChecking}
               className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-6 rounded-lg transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-cyan-400 focus:ring-opacity-75 disabled:bg-gray-400 dark:disabled:bg-gray-500 disabled:cursor-not-allowed"
             >
-              Save and Continue
+              {isChecking ? 'Checking key...' : mode === 'unlock' ? 'Unlock' : 'Save and Continue'}
             </button>
           )}
         </div>
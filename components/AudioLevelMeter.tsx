@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface AudioLevelMeterProps {
+  // Analyser on the microphone; null while the mic is closed.
+  input: AnalyserNode | null;
+  // Analyser on the assistant's audio output, if any.
+  output: AnalyserNode | null;
+}
+
+type Speaker = 'none' | 'user' | 'ai' | 'both';
+
+const SPEAKING_RMS = 0.02;
+const SPEAKER_HOLD_MS = 300;
+const CLIP_LEVEL = 0.99;
+const CLIP_HOLD_MS = 1000;
+const PEAK_DECAY_PER_FRAME = 0.01;
+const METER_FLOOR_DB = -60;
+
+const INPUT_COLOR = '#22d3ee';
+const OUTPUT_COLOR = '#c084fc';
+
+const measure = (samples: Float32Array) => {
+  let sumSquares = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  return { rms: Math.sqrt(sumSquares / samples.length), peak };
+};
+
+// Meter position 0..1 on a dB scale, so quiet speech is still visible.
+const toMeterPosition = (level: number) =>
+  level <= 0 ? 0 : Math.max(0, Math.min(1, 1 - (20 * Math.log10(level)) / METER_FLOOR_DB));
+
+const drawWaveform = (ctx: CanvasRenderingContext2D, samples: Float32Array, color: string, width: number, height: number) => {
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  for (let i = 0; i < samples.length; i++) {
+    const x = (i / (samples.length - 1)) * width;
+    const y = height / 2 - samples[i] * (height / 2);
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.stroke();
+};
+
+const SPEAKER_LABELS: Record<Speaker, string> = {
+  none: 'Listening',
+  user: 'You are speaking',
+  ai: 'Assistant is speaking',
+  both: 'Talking over each other',
+};
+
+const AudioLevelMeter: React.FC<AudioLevelMeterProps> = ({ input, output }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const levelBarRef = useRef<HTMLDivElement>(null);
+  const peakMarkerRef = useRef<HTMLDivElement>(null);
+  const [speaker, setSpeaker] = useState<Speaker>('none');
+  const [isClipping, setIsClipping] = useState(false);
+
+  useEffect(() => {
+    if (!input) return;
+    const inputSamples = new Float32Array(input.fftSize);
+    const outputSamples = output ? new Float32Array(output.fftSize) : null;
+    let peakHold = 0;
+    let lastUserSpeech = -Infinity;
+    let lastAiSpeech = -Infinity;
+    let lastClip = -Infinity;
+    let frame = 0;
+
+    const render = (now: number) => {
+      frame = requestAnimationFrame(render);
+      input.getFloatTimeDomainData(inputSamples);
+      const inputLevel = measure(inputSamples);
+      if (inputLevel.rms >= SPEAKING_RMS) lastUserSpeech = now;
+      if (inputLevel.peak >= CLIP_LEVEL) lastClip = now;
+      peakHold = Math.max(inputLevel.peak, peakHold - PEAK_DECAY_PER_FRAME);
+
+      if (output && outputSamples) {
+        output.getFloatTimeDomainData(outputSamples);
+        if (measure(outputSamples).rms >= SPEAKING_RMS) lastAiSpeech = now;
+      }
+
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx) {
+        const width = canvas.clientWidth * window.devicePixelRatio;
+        const height = canvas.clientHeight * window.devicePixelRatio;
+        if (canvas.width !== width || canvas.height !== height) {
+          canvas.width = width;
+          canvas.height = height;
+        }
+        ctx.clearRect(0, 0, width, height);
+        if (outputSamples) drawWaveform(ctx, outputSamples, OUTPUT_COLOR, width, height);
+        drawWaveform(ctx, inputSamples, INPUT_COLOR, width, height);
+      }
+      // Level bar and peak marker are updated directly to avoid re-rendering every frame.
+      if (levelBarRef.current) levelBarRef.current.style.width = `${toMeterPosition(inputLevel.rms) * 100}%`;
+      if (peakMarkerRef.current) peakMarkerRef.current.style.left = `${toMeterPosition(peakHold) * 100}%`;
+
+      const isUser = now - lastUserSpeech < SPEAKER_HOLD_MS;
+      const isAi = now - lastAiSpeech < SPEAKER_HOLD_MS;
+      setSpeaker(isUser && isAi ? 'both' : isUser ? 'user' : isAi ? 'ai' : 'none');
+      setIsClipping(now - lastClip < CLIP_HOLD_MS);
+    };
+    frame = requestAnimationFrame(render);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      setSpeaker('none');
+      setIsClipping(false);
+    };
+  }, [input, output]);
+
+  if (!input) {
+    return (
+      <div className="flex items-center justify-center h-16 bg-gray-200/30 dark:bg-gray-700/30 rounded-lg">
+        <p className="text-gray-500 text-sm">Mic Inactive</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-200/30 dark:bg-gray-700/30 rounded-lg p-2 space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className={`font-semibold ${speaker === 'user' ? 'text-cyan-600 dark:text-cyan-400' : speaker === 'ai' ? 'text-purple-600 dark:text-purple-400' : 'text-gray-500 dark:text-gray-400'}`}>
+          {SPEAKER_LABELS[speaker]}
+        </span>
+        {isClipping && (
+          <span className="font-bold text-white bg-red-500 rounded px-1.5" title="Input is too loud and distorting. Move back from the mic or lower its gain.">
+            CLIP
+          </span>
+        )}
+      </div>
+      <canvas ref={canvasRef} className="w-full h-12" aria-label="Live audio waveform"></canvas>
+      <div className="relative h-1.5 bg-gray-300 dark:bg-gray-600 rounded-full overflow-hidden" aria-hidden="true">
+        <div ref={levelBarRef} className={`h-full ${isClipping ? 'bg-red-500' : 'bg-cyan-500 dark:bg-cyan-400'}`} style={{ width: 0 }}></div>
+        <div ref={peakMarkerRef} className="absolute top-0 h-full w-0.5 bg-gray-700 dark:bg-gray-200" style={{ left: 0 }}></div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioLevelMeter;
@@ -1,28 +1,87 @@
 
-import React, { useRef, useEffect } from 'react';
-import { ChatMessage, TTSVoice } from '../types';
-import { PaperAirplaneIcon, ArrowDownTrayIcon, MicrophoneIcon, SpeakerWaveIcon } from './icons';
+import React, { useRef, useEffect, useState } from 'react';
+import { ChatMessage, CrisisCategory, TTSVoice } from '../types';
+import { ExportFormat } from '../services/sessionExport';
+import CrisisBanner from './CrisisBanner';
+import SpeechStyleSettings from './SpeechStyleSettings';
+import { SpeechStyleTable } from '../services/speechStyle';
+import { MessageAudioPlayback } from '../hooks/useMessageAudioPlayer';
+import { canRetryError, ERROR_MESSAGES } from '../services/serviceErrors';
+import { AdjustmentsIcon, ArrowPathIcon, PauseIcon, PlayIcon, PaperAirplaneIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, MicrophoneIcon, SpeakerWaveIcon, XMarkIcon } from './icons';
+
+// A failure outside the message list, e.g. speech synthesis or the live connection.
+export interface ErrorNotice {
+  message: string;
+  onRetry?: () => void;
+}
 
 interface ChatPanelProps {
   history: ChatMessage[];
   onSendMessage: (text: string) => void;
   isGenerating: boolean;
   isLoadingAudio: boolean;
-  onExport: () => void;
+  onExport: (format: ExportFormat, includeAudio?: boolean) => void;
+  onImport: (file: File) => void;
   isLive: boolean;
+  // A dropped live connection is being re-established.
+  isReconnecting: boolean;
   onToggleLiveSession: () => void;
   inputText: string;
   onInputChange: (value: string) => void;
   voices: TTSVoice[];
   selectedVoice: string;
   onVoiceChange: (value: string) => void;
+  speechStyles: SpeechStyleTable;
+  onSpeechStylesChange: (styles: SpeechStyleTable) => void;
   mediaError: string | null;
+  errorNotice: ErrorNotice | null;
+  onDismissError: () => void;
+  // Asks for a failed reply again.
+  onRetryReply: (message: ChatMessage) => void;
+  helplineRegion: string;
+  onHelplineRegionChange: (region: string) => void;
+  audioPlayback: MessageAudioPlayback | null;
+  onPlayAudio: (message: ChatMessage) => void;
+  onPauseAudio: () => void;
+  onResumeAudio: () => void;
+}
+
+interface MessageAudioControls {
+  // Set while this message is the one being replayed.
+  playback: MessageAudioPlayback | null;
+  disabled: boolean;
+  onPlay: () => void;
+  onPause: () => void;
+  onResume: () => void;
 }
 
-const ChatBubble: React.FC<{ message: ChatMessage }> = ({ message }) => {
+const AudioControls: React.FC<MessageAudioControls> = ({ playback, disabled, onPlay, onPause, onResume }) => {
+  const buttonClasses = "p-1 rounded-full text-gray-500 dark:text-gray-400 hover:text-cyan-600 dark:hover:text-cyan-400 hover:bg-gray-300/50 dark:hover:bg-gray-600/50 disabled:opacity-50 disabled:cursor-not-allowed";
+  return (
+    <div className="flex items-center gap-1 mt-1 -ml-1">
+      {playback?.isPlaying ? (
+        <button onClick={onPause} className={buttonClasses} aria-label="Pause reply">
+          <PauseIcon className="h-4 w-4" />
+        </button>
+      ) : (
+        <button onClick={playback ? onResume : onPlay} disabled={disabled} className={buttonClasses} aria-label={playback ? 'Resume reply' : 'Play reply'}>
+          <PlayIcon className="h-4 w-4" />
+        </button>
+      )}
+      {playback && (
+        <button onClick={onPlay} disabled={disabled} className={buttonClasses} aria-label="Replay from the start">
+          <ArrowPathIcon className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+const ChatBubble: React.FC<{ message: ChatMessage; audio?: MessageAudioControls; onRetry?: () => void }> = ({ message, audio, onRetry }) => {
   const isUser = message.sender === 'user';
-  // Don't render empty AI messages or placeholder dots.
-  if (message.sender === 'ai' && (!message.text.trim() || message.text === '...')) {
+  const isSafetyReply = !isUser && !!message.crisis?.length;
+  // Don't render empty AI messages or placeholder dots, unless there is an error to show.
+  if (message.sender === 'ai' && !message.error && (!message.text.trim() || message.text === '...')) {
     return null;
   }
   return (
@@ -31,20 +90,47 @@ const ChatBubble: React.FC<{ message: ChatMessage }> = ({ message }) => {
         className={`max-w-xs md:max-w-md lg:max-w-lg px-4 py-3 rounded-2xl ${
           isUser
             ? 'bg-cyan-600 text-white rounded-br-none'
+            : isSafetyReply
+            ? 'bg-amber-100 dark:bg-amber-900/40 text-amber-900 dark:text-amber-100 border border-amber-400 dark:border-amber-600 rounded-bl-none'
             : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-bl-none'
         }`}
       >
-        <p className="text-sm break-words whitespace-pre-wrap">{message.text}</p>
+        {message.text.trim() && message.text !== '...' && (
+          <p className="text-sm break-words whitespace-pre-wrap">{message.text}</p>
+        )}
+        {message.error && (
+          <div className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+            <p>{ERROR_MESSAGES[message.error]}</p>
+            {onRetry && (
+              <button onClick={onRetry} className="shrink-0 flex items-center gap-1 text-xs font-semibold text-cyan-600 dark:text-cyan-400 hover:underline">
+                <ArrowPathIcon className="h-3 w-3" /> Retry
+              </button>
+            )}
+          </div>
+        )}
+        {message.interrupted && (
+          <p className="text-xs italic text-gray-500 dark:text-gray-400 mt-1">Interrupted</p>
+        )}
+        {isUser && !!message.crisis?.length && (
+          <p className="text-xs text-cyan-100 mt-1">Support resources shown</p>
+        )}
+        {isSafetyReply && (
+          <p className="text-xs font-semibold mt-1">Safety response</p>
+        )}
+        {audio && <AudioControls {...audio} />}
       </div>
     </div>
   );
 };
 
-const StatusIndicator: React.FC<{ isGenerating: boolean; isLoadingAudio: boolean, isLive: boolean }> = ({ isGenerating, isLoadingAudio, isLive }) => {
+const StatusIndicator: React.FC<{ isGenerating: boolean; isLoadingAudio: boolean, isLive: boolean, isReconnecting: boolean }> = ({ isGenerating, isLoadingAudio, isLive, isReconnecting }) => {
     let statusText = '';
     let Icon = null;
   
-    if (isLive) {
+    if (isReconnecting) {
+        statusText = 'Reconnecting...';
+        Icon = <div className="w-3 h-3 bg-amber-500 rounded-full animate-pulse"></div>;
+    } else if (isLive) {
         statusText = 'Live session active...';
         Icon = <div className="w-3 h-3 bg-red-500 rounded-full animate-pulse"></div>;
     } else if (isLoadingAudio) {
@@ -74,11 +160,68 @@ const StatusIndicator: React.FC<{ isGenerating: boolean; isLoadingAudio: boolean
 };
 
 
+const SessionMenu: React.FC<{ onExport: (format: ExportFormat, includeAudio?: boolean) => void; onImport: (file: File) => void; disabled: boolean }> = ({ onExport, onImport, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = (format: ExportFormat, includeAudio = false) => {
+    setIsOpen(false);
+    onExport(format, includeAudio);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    setIsOpen(false);
+    if (file) onImport(file);
+  };
+
+  const itemClasses = "w-full flex items-center gap-2 text-left text-sm px-3 py-2 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600";
+
+  return (
+    <div className="relative">
+      <button 
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700/50"
+        aria-label="Export or import session"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <ArrowDownTrayIcon className="h-5 w-5" />
+        <span className="hidden md:inline">Session</span>
+      </button>
+      {isOpen && (
+        <div role="menu" className="absolute right-0 mt-1 w-48 bg-white dark:bg-gray-700 rounded-md shadow-lg overflow-hidden z-20">
+          <button role="menuitem" className={itemClasses} onClick={() => handleExport('json')}>
+            <ArrowDownTrayIcon className="h-4 w-4" /> Export JSON
+          </button>
+          <button role="menuitem" className={itemClasses} onClick={() => handleExport('json', true)}>
+            <ArrowDownTrayIcon className="h-4 w-4" /> Export JSON with audio
+          </button>
+          <button role="menuitem" className={itemClasses} onClick={() => handleExport('markdown')}>
+            <ArrowDownTrayIcon className="h-4 w-4" /> Export Markdown
+          </button>
+          <button role="menuitem" className={`${itemClasses} disabled:opacity-50`} onClick={() => fileInputRef.current?.click()} disabled={disabled}>
+            <ArrowUpTrayIcon className="h-4 w-4" /> Import JSON...
+          </button>
+        </div>
+      )}
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+    </div>
+  );
+};
+
 const ChatPanel: React.FC<ChatPanelProps> = ({ 
-    history, onSendMessage, isGenerating, isLoadingAudio, onExport, 
-    isLive, onToggleLiveSession, inputText, onInputChange, voices, selectedVoice, onVoiceChange, mediaError
+    history, onSendMessage, isGenerating, isLoadingAudio, onExport, onImport,
+    isLive, isReconnecting, onToggleLiveSession, inputText, onInputChange, voices, selectedVoice, onVoiceChange, mediaError,
+    errorNotice, onDismissError, onRetryReply,
+    helplineRegion, onHelplineRegionChange, speechStyles, onSpeechStylesChange,
+    audioPlayback, onPlayAudio, onPauseAudio, onResumeAudio
 }) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [isStyleOpen, setIsStyleOpen] = useState(false);
+  // Once anything in the conversation is flagged, the helplines stay on screen.
+  const crisisCategories = [...new Set(history.flatMap(m => m.sender === 'user' ? m.crisis ?? [] : []))] as CrisisCategory[];
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -117,26 +260,63 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
                     </option>
                     )) : <option>No voices available</option>}
                 </select>
+                <button
+                    onClick={() => setIsStyleOpen(true)}
+                    className="p-1 rounded-md text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700/50"
+                    aria-label="Speech style"
+                    title="Adjust how replies are spoken for each mood"
+                >
+                    <AdjustmentsIcon className="h-5 w-5" />
+                </button>
             </div>
-            <button 
-              onClick={onExport}
-              className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700/50"
-              aria-label="Export chat log"
-            >
-              <ArrowDownTrayIcon className="h-5 w-5" />
-              <span className="hidden md:inline">Export Log</span>
-            </button>
+            <SessionMenu onExport={onExport} onImport={onImport} disabled={isGenerating || isLive} />
         </div>
       </div>
+      <SpeechStyleSettings isOpen={isStyleOpen} onClose={() => setIsStyleOpen(false)} styles={speechStyles} onSave={onSpeechStylesChange} />
+      {crisisCategories.length > 0 && (
+        <CrisisBanner categories={crisisCategories} region={helplineRegion} onRegionChange={onHelplineRegionChange} />
+      )}
       <div className="flex-grow p-4 overflow-y-auto space-y-4">
         {history.map((msg, index) => (
-          <ChatBubble key={index} message={msg} />
+          <ChatBubble
+            key={msg.id}
+            message={msg}
+            // Only the latest reply can be retried; earlier ones already have answers after them.
+            onRetry={msg.error && canRetryError(msg.error) && index === history.length - 1 && !isGenerating && !isLive
+              ? () => onRetryReply(msg)
+              : undefined}
+            audio={msg.audioId ? {
+              playback: audioPlayback?.messageId === msg.id ? audioPlayback : null,
+              // Replies played during a live session would be picked up by the microphone.
+              disabled: isLive,
+              onPlay: () => onPlayAudio(msg),
+              onPause: onPauseAudio,
+              onResume: onResumeAudio,
+            } : undefined}
+          />
         ))}
         <div ref={messagesEndRef} />
       </div>
       <div className="p-4 border-t border-gray-200 dark:border-gray-700">
-        <StatusIndicator isGenerating={isGenerating} isLoadingAudio={isLoadingAudio} isLive={isLive} />
+        <StatusIndicator isGenerating={isGenerating} isLoadingAudio={isLoadingAudio} isLive={isLive} isReconnecting={isReconnecting} />
         {mediaError && !isLive && <p className="text-red-500 text-center text-sm mb-2">{mediaError}</p>}
+        {errorNotice && (
+          <div role="alert" className="flex items-center justify-center gap-3 text-sm text-red-500 mb-2">
+            <p>{errorNotice.message}</p>
+            {errorNotice.onRetry && (
+              <button
+                onClick={errorNotice.onRetry}
+                disabled={isGenerating || isLoadingAudio || isLive}
+                className="shrink-0 flex items-center gap-1 text-xs font-semibold text-cyan-600 dark:text-cyan-400 hover:underline disabled:opacity-50 disabled:no-underline"
+              >
+                <ArrowPathIcon className="h-3 w-3" /> Retry
+              </button>
+            )}
+            <button onClick={onDismissError} className="p-0.5 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" aria-label="Dismiss error">
+              <XMarkIcon className="h-4 w-4" />
+            </button>
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="flex items-center gap-3">
           <input
             type="text"
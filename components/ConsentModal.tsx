@@ -18,6 +18,7 @@ const ConsentModal: React.FC<ConsentModalProps> = ({ onConsent }) => {
             <li>We use your camera to detect facial emotions.</li>
             <li>We use your microphone to detect vocal tone.</li>
             <li>Text you type is sent to a generative AI to provide a response.</li>
+            <li>Your conversation history is saved only in this browser, and you can delete it at any time.</li>
           </ul>
         </div>
         <p className="text-xs text-gray-400 dark:text-gray-500 mb-8">
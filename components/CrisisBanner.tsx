@@ -0,0 +1,43 @@
+import React from 'react';
+import { CrisisCategory } from '../types';
+import { getHelplines, HELPLINE_REGIONS } from '../services/crisisSafety';
+
+interface CrisisBannerProps {
+  categories: CrisisCategory[];
+  region: string;
+  onRegionChange: (region: string) => void;
+}
+
+const CrisisBanner: React.FC<CrisisBannerProps> = ({ categories, region, onRegionChange }) => {
+  const { emergencyNumber } = HELPLINE_REGIONS[region] ?? HELPLINE_REGIONS.INTL;
+  return (
+    <div role="alert" className="mx-4 mt-4 rounded-lg border border-amber-400 bg-amber-50 dark:bg-amber-900/30 dark:border-amber-600 p-3 text-sm text-amber-900 dark:text-amber-100">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="font-semibold">You don't have to go through this alone. Support is available right now.</p>
+        <select
+          value={region}
+          onChange={(e) => onRegionChange(e.target.value)}
+          className="bg-white dark:bg-gray-700 rounded-md py-0.5 px-2 text-xs text-gray-900 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-amber-500"
+          aria-label="Helpline region"
+        >
+          {Object.entries(HELPLINE_REGIONS).map(([code, { label }]) => (
+            <option key={code} value={code}>{label}</option>
+          ))}
+        </select>
+      </div>
+      <ul className="mt-2 space-y-1">
+        {getHelplines(region, categories).map(helpline => (
+          <li key={helpline.name}>
+            {helpline.url
+              ? <a href={helpline.url} target="_blank" rel="noopener noreferrer" className="font-semibold underline">{helpline.name}</a>
+              : <span className="font-semibold">{helpline.name}</span>}
+            {' · '}{helpline.contact}
+          </li>
+        ))}
+      </ul>
+      <p className="mt-2 text-xs">If you are in immediate danger, call {emergencyNumber}.</p>
+    </div>
+  );
+};
+
+export default CrisisBanner;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { XMarkIcon } from './icons';
+import { DEVICE_KIND_LABELS, DeviceKind, DeviceLists, DevicePreferences } from '../services/deviceManager';
+
+interface DeviceSettingsProps {
+  devices: DeviceLists;
+  preferences: DevicePreferences;
+  onSelect: (kind: DeviceKind, deviceId: string | undefined) => void;
+  // Speaker choice needs AudioContext.setSinkId, which not every browser has.
+  canSelectOutput: boolean;
+  notice: string | null;
+  onDismissNotice: () => void;
+}
+
+const DeviceSettings: React.FC<DeviceSettingsProps> = ({ devices, preferences, onSelect, canSelectOutput, notice, onDismissNotice }) => {
+  const kinds: DeviceKind[] = canSelectOutput ? ['videoinput', 'audioinput', 'audiooutput'] : ['videoinput', 'audioinput'];
+  return (
+    <div className="space-y-2 text-sm">
+      {notice && (
+        <div role="status" className="flex items-start gap-2 rounded-md bg-amber-500/10 text-amber-700 dark:text-amber-300 p-2">
+          <p className="flex-1">{notice}</p>
+          <button onClick={onDismissNotice} className="p-0.5 rounded hover:text-amber-900 dark:hover:text-amber-100" aria-label="Dismiss device notice">
+            <XMarkIcon className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+      <details>
+        <summary className="cursor-pointer text-gray-500 dark:text-gray-400">Devices</summary>
+        <div className="mt-2 space-y-2">
+          {kinds.map(kind => {
+            const options = devices[kind];
+            const selected = preferences[kind] ?? '';
+            const isMissing = !!selected && options.length > 0 && !options.some(o => o.deviceId === selected);
+            return (
+              <label key={kind} className="flex items-center gap-2">
+                <span className="w-24 text-gray-600 dark:text-gray-300">{DEVICE_KIND_LABELS[kind]}</span>
+                <select
+                  value={isMissing ? '' : selected}
+                  onChange={(e) => onSelect(kind, e.target.value || undefined)}
+                  className="flex-1 min-w-0 bg-gray-100 dark:bg-gray-700 rounded-md py-1 px-2 text-gray-900 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                >
+                  <option value="">System default</option>
+                  {options.map(option => (
+                    <option key={option.deviceId} value={option.deviceId}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            );
+          })}
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Changes apply immediately, even during a session.
+          </p>
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default DeviceSettings;
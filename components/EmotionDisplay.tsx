@@ -1,58 +1,40 @@
 import React from 'react';
-import { Emotion, FusedEmotion } from '../types';
-import { FaceSmileIcon, MicrophoneIcon, SparklesIcon } from './icons';
+import { Emotion, EmotionScores, FaceStatus, FusionResult } from '../types';
+import { TextEmotionResult } from '../services/textEmotionClassifier';
+import { ChatBubbleIcon, FaceSmileIcon, MicrophoneIcon, SparklesIcon } from './icons';
+import AudioLevelMeter from './AudioLevelMeter';
 
 interface EmotionDisplayProps {
   facialEmotion: Emotion;
+  faceStatus: FaceStatus;
   vocalEmotion: Emotion;
-  fusedEmotion: FusedEmotion;
+  vocalScores: EmotionScores | null;
+  textEmotion: TextEmotionResult | null;
+  fusion: FusionResult;
   isActive: boolean;
+  isVocalActive: boolean;
+  inputAnalyser: AnalyserNode | null;
+  outputAnalyser: AnalyserNode | null;
 }
 
-const EmotionTag: React.FC<{ icon: React.ReactNode; label: string; value: string; }> = ({ icon, label, value }) => (
+const EmotionTag: React.FC<{ icon: React.ReactNode; label: string; value: string; confidence?: number; }> = ({ icon, label, value, confidence }) => (
     <div className="flex items-center gap-3 bg-gray-200/50 dark:bg-gray-700/50 p-3 rounded-lg">
         {icon}
         <div className="flex-1">
             <p className="text-sm text-gray-600 dark:text-gray-400">{label}</p>
             <div className="font-semibold text-lg text-gray-900 dark:text-white h-7 flex items-center">
               <p>{value}</p>
+              {confidence !== undefined && (
+                <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">{Math.round(confidence * 100)}%</span>
+              )}
             </div>
         </div>
     </div>
 );
 
-const AudioWaveform: React.FC<{ isActive: boolean }> = ({ isActive }) => (
-    <div className="flex items-center justify-center h-16 bg-gray-200/30 dark:bg-gray-700/30 rounded-lg overflow-hidden">
-        {isActive ? (
-             <div className="flex items-center justify-center gap-1 w-full h-full">
-                {[...Array(20)].map((_, i) => (
-                    <div
-                        key={i}
-                        className="w-1.5 bg-cyan-500 dark:bg-cyan-400 rounded-full animate-wave"
-                        style={{
-                            height: `${Math.random() * 80 + 10}%`,
-                            animationDelay: `${i * 0.05}s`,
-                        }}
-                    ></div>
-                ))}
-            </div>
-        ) : (
-            <p className="text-gray-500 text-sm">Mic Inactive</p>
-        )}
-        <style>{`
-            @keyframes wave {
-                0%, 100% { transform: scaleY(0.2); }
-                50% { transform: scaleY(1); }
-            }
-            .animate-wave {
-                animation: wave 1.5s ease-in-out infinite;
-            }
-        `}</style>
-    </div>
-);
-
-
-const EmotionDisplay: React.FC<EmotionDisplayProps> = ({ facialEmotion, vocalEmotion, fusedEmotion, isActive }) => {
+const EmotionDisplay: React.FC<EmotionDisplayProps> = ({ facialEmotion, faceStatus, vocalEmotion, vocalScores, textEmotion, fusion, isActive, isVocalActive, inputAnalyser, outputAnalyser }) => {
+  const isAnyActive = isActive || isVocalActive || textEmotion !== null;
+  const facialValue = faceStatus === 'no-face' ? 'No face detected' : faceStatus === 'searching' ? 'Searching...' : facialEmotion;
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-lg">
       <h2 className="text-xl font-bold mb-4 text-cyan-600 dark:text-cyan-400">Emotion Analysis</h2>
@@ -60,12 +42,28 @@ const EmotionDisplay: React.FC<EmotionDisplayProps> = ({ facialEmotion, vocalEmo
         <EmotionTag 
             icon={<FaceSmileIcon className="h-8 w-8 text-purple-500 dark:text-purple-400" />} 
             label="Facial Emotion" 
-            value={isActive ? facialEmotion : 'N/A'} 
+            value={isActive ? facialValue : 'N/A'} 
+        />
+        <EmotionTag
+            icon={<MicrophoneIcon className="h-8 w-8 text-green-500 dark:text-green-400" />}
+            label="Vocal Emotion"
+            value={isVocalActive ? vocalEmotion : 'N/A'}
+            confidence={isVocalActive && vocalScores ? vocalScores[vocalEmotion] : undefined}
+        />
+        <AudioLevelMeter input={inputAnalyser} output={outputAnalyser} />
+        <EmotionTag
+            icon={<ChatBubbleIcon className="h-8 w-8 text-blue-500 dark:text-blue-400" />}
+            label="Text Emotion"
+            value={textEmotion ? textEmotion.emotion : 'N/A'}
+            confidence={textEmotion && textEmotion.reliability > 0 ? textEmotion.scores[textEmotion.emotion] : undefined}
         />
-        <EmotionTag icon={<MicrophoneIcon className="h-8 w-8 text-green-500 dark:text-green-400" />} label="Vocal Emotion" value={isActive ? vocalEmotion : 'N/A'} />
-        <AudioWaveform isActive={isActive} />
         <div className="pt-2">
-            <EmotionTag icon={<SparklesIcon className="h-8 w-8 text-yellow-500 dark:text-yellow-400" />} label="Fused Mood" value={isActive ? fusedEmotion : 'N/A'} />
+            <EmotionTag
+                icon={<SparklesIcon className="h-8 w-8 text-yellow-500 dark:text-yellow-400" />}
+                label="Fused Mood"
+                value={isAnyActive ? fusion.emotion : 'N/A'}
+                confidence={isAnyActive ? fusion.confidence : undefined}
+            />
         </div>
       </div>
     </div>
@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { ChatMessage, Emotion, EmotionModality, EmotionScores, EmotionTimelineEntry } from '../types';
+import { EMOTIONS } from '../utils/emotionScores';
+
+interface EmotionTimelineProps {
+  timeline: EmotionTimelineEntry[];
+  messages: ChatMessage[];
+}
+
+type TimelineSource = 'fused' | EmotionModality;
+
+const SOURCES: { value: TimelineSource; label: string }[] = [
+  { value: 'fused', label: 'Fused' },
+  { value: 'face', label: 'Face' },
+  { value: 'voice', label: 'Voice' },
+  { value: 'text', label: 'Text' },
+];
+
+const EMOTION_COLORS: Record<Emotion, string> = {
+  Happy: '#facc15',
+  Sad: '#60a5fa',
+  Angry: '#f87171',
+  Neutral: '#9ca3af',
+  Surprised: '#c084fc',
+  Calm: '#4ade80',
+};
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Splits a series into polyline segments, breaking wherever the source had no data
+ * (e.g. the camera was off) so gaps are not drawn as straight lines.
+ */
+const toSegments = (points: ({ x: number; y: number } | null)[]): string[] => {
+  const segments: string[] = [];
+  let current: string[] = [];
+  for (const point of points) {
+    if (point) {
+      current.push(`${point.x.toFixed(1)},${point.y.toFixed(1)}`);
+    } else if (current.length) {
+      segments.push(current.join(' '));
+      current = [];
+    }
+  }
+  if (current.length) segments.push(current.join(' '));
+  return segments;
+};
+
+const EmotionTimeline: React.FC<EmotionTimelineProps> = ({ timeline, messages }) => {
+  const [source, setSource] = useState<TimelineSource>('fused');
+
+  const chart = useMemo(() => {
+    if (timeline.length < 2) return null;
+    const start = timeline[0].timestamp;
+    const end = timeline[timeline.length - 1].timestamp;
+    const span = Math.max(1, end - start);
+    const x = (timestamp: number) => ((timestamp - start) / span) * CHART_WIDTH;
+    const y = (value: number) => CHART_HEIGHT - value * CHART_HEIGHT;
+
+    const scoresAt = (entry: EmotionTimelineEntry): EmotionScores | undefined =>
+      source === 'fused' ? entry.fusion.scores : entry.fusion.modalities[source];
+
+    const lines = EMOTIONS.map(emotion => ({
+      emotion,
+      segments: toSegments(timeline.map(entry => {
+        const scores = scoresAt(entry);
+        return scores ? { x: x(entry.timestamp), y: y(scores[emotion]) } : null;
+      })),
+    }));
+
+    const confidence = source === 'fused'
+      ? toSegments(timeline.map(entry => ({ x: x(entry.timestamp), y: y(entry.fusion.confidence) })))
+      : [];
+
+    const markers = messages
+      .filter(message => message.timestamp >= start && message.timestamp <= end)
+      .map(message => ({ x: x(message.timestamp), message }));
+
+    return { lines, confidence, markers, span };
+  }, [timeline, messages, source]);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl font-bold text-cyan-600 dark:text-cyan-400">Emotion Timeline</h2>
+        <div className="flex gap-1" role="tablist" aria-label="Timeline source">
+          {SOURCES.map(option => (
+            <button
+              key={option.value}
+              role="tab"
+              aria-selected={source === option.value}
+              onClick={() => setSource(option.value)}
+              className={`text-xs px-2 py-1 rounded-md transition-colors ${
+                source === option.value
+                  ? 'bg-cyan-600 text-white'
+                  : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700/50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {chart ? (
+        <>
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            preserveAspectRatio="none"
+            className="w-full h-32 bg-gray-200/30 dark:bg-gray-700/30 rounded-md"
+            aria-label="Emotion scores over time"
+          >
+            {chart.markers.map(({ x, message }, index) => (
+              <line
+                key={index}
+                x1={x} x2={x} y1={0} y2={CHART_HEIGHT}
+                stroke={message.sender === 'user' ? '#06b6d4' : '#6b7280'}
+                strokeWidth={1}
+                strokeDasharray={message.sender === 'user' ? undefined : '2 2'}
+                vectorEffect="non-scaling-stroke"
+              >
+                <title>{`${message.sender === 'user' ? 'You' : 'Assistant'}: ${message.text.slice(0, 80)}`}</title>
+              </line>
+            ))}
+            {chart.lines.map(({ emotion, segments }) => segments.map((points, index) => (
+              <polyline
+                key={`${emotion}-${index}`}
+                points={points}
+                fill="none"
+                stroke={EMOTION_COLORS[emotion]}
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+              />
+            )))}
+            {chart.confidence.map((points, index) => (
+              <polyline
+                key={`confidence-${index}`}
+                points={points}
+                fill="none"
+                stroke="currentColor"
+                strokeWidth={1}
+                strokeDasharray="4 3"
+                className="text-gray-700 dark:text-gray-200"
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+            <span>0:00</span>
+            <span>{formatElapsed(chart.span)}</span>
+          </div>
+          <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-xs text-gray-600 dark:text-gray-400">
+            {EMOTIONS.map(emotion => (
+              <span key={emotion} className="flex items-center gap-1">
+                <span className="inline-block w-3 h-0.5" style={{ backgroundColor: EMOTION_COLORS[emotion] }}></span>
+                {emotion}
+              </span>
+            ))}
+            {source === 'fused' && <span className="flex items-center gap-1"><span className="inline-block w-3 border-t border-dashed border-gray-700 dark:border-gray-200"></span>Confidence</span>}
+            <span className="flex items-center gap-1"><span className="inline-block w-0.5 h-3 bg-cyan-500"></span>Your message</span>
+            <span className="flex items-center gap-1"><span className="inline-block w-0.5 h-3 bg-gray-500"></span>Reply</span>
+          </div>
+        </>
+      ) : (
+        <div className="flex items-center justify-center h-32 bg-gray-200/30 dark:bg-gray-700/30 rounded-md">
+          <p className="text-gray-500 text-sm">No emotion data recorded yet</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmotionTimeline;
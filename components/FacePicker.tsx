@@ -0,0 +1,97 @@
+import React from 'react';
+import { Emotion } from '../types';
+
+export interface FaceSummary {
+  id: number;
+  emotion: Emotion;
+  isVisible: boolean;
+}
+
+interface FacePickerProps {
+  isMultiFace: boolean;
+  onMultiFaceChange: (value: boolean) => void;
+  showAllEmotions: boolean;
+  onShowAllEmotionsChange: (value: boolean) => void;
+  faces: FaceSummary[];
+  primaryId: number | null;
+  pinnedId: number | null;
+  onPin: (id: number | null) => void;
+}
+
+const FacePicker: React.FC<FacePickerProps> = ({
+  isMultiFace, onMultiFaceChange, showAllEmotions, onShowAllEmotionsChange, faces, primaryId, pinnedId, onPin,
+}) => {
+  const hasPinnedLeft = pinnedId !== null && !faces.some(face => face.id === pinnedId);
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <label className="flex items-center gap-2 text-gray-600 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isMultiFace}
+            onChange={(e) => onMultiFaceChange(e.target.checked)}
+            className="accent-cyan-600"
+          />
+          Several people in frame
+        </label>
+        {isMultiFace && (
+          <label className="flex items-center gap-2 text-gray-600 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showAllEmotions}
+              onChange={(e) => onShowAllEmotionsChange(e.target.checked)}
+              className="accent-cyan-600"
+            />
+            Show everyone's emotions
+          </label>
+        )}
+      </div>
+      {isMultiFace && hasPinnedLeft && (
+        <div role="status" className="flex flex-wrap items-center gap-2 text-xs text-amber-600 dark:text-amber-400">
+          <span>Person {pinnedId} has left the frame, so no emotions are being read. Pin them again when they are back.</span>
+          <button onClick={() => onPin(null)} className="font-semibold hover:underline">
+            Unpin and use the closest face
+          </button>
+        </div>
+      )}
+      {isMultiFace && (
+        faces.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">No faces detected yet.</p>
+        ) : (
+          <div>
+            <div className="flex flex-wrap gap-2">
+              {faces.map(face => {
+                const isPinned = face.id === pinnedId;
+                const isPrimary = face.id === primaryId;
+                return (
+                  <button
+                    key={face.id}
+                    onClick={() => onPin(isPinned ? null : face.id)}
+                    aria-pressed={isPinned}
+                    title={isPinned ? 'Unpin: pick the user automatically again' : 'Pin as the user'}
+                    className={`flex items-center gap-1.5 rounded-full border px-3 py-1 transition-colors duration-200 ${
+                      isPrimary
+                        ? 'border-cyan-500 bg-cyan-600/10 text-cyan-700 dark:text-cyan-300'
+                        : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-cyan-500'
+                    } ${face.isVisible ? '' : 'opacity-50'}`}
+                  >
+                    <span className="font-semibold">Person {face.id}</span>
+                    <span className="text-xs">{face.isVisible ? face.emotion : 'out of view'}</span>
+                    {isPinned && <span className="text-xs font-semibold">· pinned</span>}
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {pinnedId !== null
+                ? hasPinnedLeft ? 'Tap a person to pin them instead.' : 'Emotions are read from the pinned person only.'
+                : 'Emotions are read from the closest face. Tap a person to pin them as the user.'}
+            </p>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default FacePicker;
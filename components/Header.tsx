@@ -1,14 +1,22 @@
 import React from 'react';
-import { BrainCircuitIcon } from './icons';
+import { AdjustmentsIcon, BrainCircuitIcon, ClockIcon, KeyIcon } from './icons';
 import ThemeSwitcher from './ThemeSwitcher';
 import { Theme } from '../types';
+import { LLMProvider, ProviderId } from '../services/providers';
 
 interface HeaderProps {
     theme: Theme;
     onToggleTheme: () => void;
+    onOpenHistory: () => void;
+    onOpenSettings: () => void;
+    onOpenApiKey: () => void;
+    provider: LLMProvider;
+    onSelectProvider: (id: ProviderId) => void;
+    // Switching mid-reply or mid-call would strand the in-flight request.
+    isProviderLocked: boolean;
 }
 
-const Header: React.FC<HeaderProps> = ({ theme, onToggleTheme }) => {
+const Header: React.FC<HeaderProps> = ({ theme, onToggleTheme, onOpenHistory, onOpenSettings, onOpenApiKey, provider, onSelectProvider, isProviderLocked }) => {
   return (
     <header className="bg-white/80 dark:bg-gray-800/50 backdrop-blur-sm shadow-md p-4 sticky top-0 z-10">
       <div className="max-w-7xl mx-auto flex items-center justify-between">
@@ -18,7 +26,44 @@ const Header: React.FC<HeaderProps> = ({ theme, onToggleTheme }) => {
             Multimodal Emotional Assistant
             </h1>
         </div>
-        <ThemeSwitcher theme={theme} onToggle={onToggleTheme} />
+        <div className="flex items-center gap-2">
+          {provider.id === 'mock' && (
+            <div className="flex items-center gap-2 text-xs font-semibold rounded-full bg-amber-500/10 text-amber-700 dark:text-amber-300 py-1 pl-3 pr-1">
+              <span title="Responses are canned and speech is synthesized tones. Nothing is sent over the network.">Offline demo</span>
+              <button
+                onClick={() => onSelectProvider('gemini')}
+                disabled={isProviderLocked}
+                className="rounded-full bg-white/70 dark:bg-gray-800/70 px-2 py-0.5 hover:text-cyan-600 dark:hover:text-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Use Gemini
+              </button>
+            </div>
+          )}
+          <button
+            onClick={onOpenHistory}
+            className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-800"
+            aria-label="Open session history"
+          >
+            <ClockIcon className="h-6 w-6" />
+          </button>
+          <button
+            onClick={onOpenSettings}
+            className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-800"
+            aria-label="Assistant persona settings"
+          >
+            <AdjustmentsIcon className="h-6 w-6" />
+          </button>
+          {provider.requiresApiKey && (
+            <button
+              onClick={onOpenApiKey}
+              className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-800"
+              aria-label="API key settings"
+            >
+              <KeyIcon className="h-6 w-6" />
+            </button>
+          )}
+          <ThemeSwitcher theme={theme} onToggle={onToggleTheme} />
+        </div>
       </div>
     </header>
   );
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { XMarkIcon } from './icons';
+import {
+  BUILT_IN_PERSONAS, buildSystemPrompt, PersonaSettings as PersonaSettingsValue, PROMPT_VARIABLES, resolvePersona,
+} from '../services/personas';
+
+interface PersonaSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: PersonaSettingsValue;
+  onSave: (settings: PersonaSettingsValue) => void;
+}
+
+const PREVIEW_CONTEXT = {
+  emotion: 'Sad' as const,
+  confidence: 0.72,
+  sessionContext: 'You have exchanged 4 messages so far. Their mood has moved from neutral to sad.',
+};
+
+const PersonaSettings: React.FC<PersonaSettingsProps> = ({ isOpen, onClose, settings, onSave }) => {
+  if (!isOpen) return null;
+  // Mounted only while open, so the draft starts from the saved settings each time.
+  return <PersonaSettingsDialog onClose={onClose} settings={settings} onSave={onSave} />;
+};
+
+const PersonaSettingsDialog: React.FC<Omit<PersonaSettingsProps, 'isOpen'>> = ({ onClose, settings, onSave }) => {
+  const [draft, setDraft] = useState<PersonaSettingsValue>(settings);
+  const persona = resolvePersona(draft);
+  const defaultTemplate = BUILT_IN_PERSONAS.find(p => p.id === persona.id)?.template ?? '';
+  const isEdited = persona.template !== defaultTemplate;
+
+  const setTemplate = (template: string) => {
+    setDraft(d => ({ ...d, templates: { ...d.templates, [persona.id]: template } }));
+  };
+
+  const resetTemplate = () => {
+    setDraft(d => {
+      const { [persona.id]: _removed, ...templates } = d.templates;
+      return { ...d, templates };
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+    onClose();
+  };
+
+  const inputClasses = "w-full bg-gray-100 dark:bg-gray-700 rounded-md py-2 px-3 text-sm text-gray-900 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/75 dark:bg-black/75 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto animate-fade-in-up">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-cyan-600 dark:text-cyan-400">Assistant Persona</h2>
+          <button type="button" onClick={onClose} className="p-1 rounded text-gray-500 hover:text-gray-900 dark:hover:text-white" aria-label="Close settings">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <label htmlFor="personaUserName" className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">
+          What should the assistant call you?
+        </label>
+        <input
+          id="personaUserName"
+          value={draft.userName}
+          onChange={(e) => setDraft(d => ({ ...d, userName: e.target.value }))}
+          placeholder="Optional"
+          className={`${inputClasses} mb-4`}
+        />
+
+        <p className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Persona</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-4" role="radiogroup" aria-label="Persona">
+          {BUILT_IN_PERSONAS.map(p => (
+            <button
+              key={p.id}
+              type="button"
+              role="radio"
+              aria-checked={p.id === persona.id}
+              onClick={() => setDraft(d => ({ ...d, activePersonaId: p.id }))}
+              className={`text-left rounded-lg border p-3 transition-colors duration-200 ${
+                p.id === persona.id
+                  ? 'border-cyan-500 bg-cyan-600/10'
+                  : 'border-gray-300 dark:border-gray-600 hover:border-cyan-500'
+              }`}
+            >
+              <p className={`text-sm font-semibold ${p.id === persona.id ? 'text-cyan-700 dark:text-cyan-300' : 'text-gray-800 dark:text-gray-200'}`}>{p.name}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{p.description}</p>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between mb-1">
+          <label htmlFor="personaTemplate" className="text-sm font-medium text-gray-500 dark:text-gray-400">Prompt template</label>
+          {isEdited && (
+            <button type="button" onClick={resetTemplate} className="text-xs text-cyan-600 dark:text-cyan-400 hover:underline">
+              Reset to default
+            </button>
+          )}
+        </div>
+        <textarea
+          id="personaTemplate"
+          value={persona.template}
+          onChange={(e) => setTemplate(e.target.value)}
+          rows={6}
+          className={`${inputClasses} font-mono`}
+        />
+        <ul className="text-xs text-gray-500 dark:text-gray-400 mt-2 space-y-0.5">
+          {PROMPT_VARIABLES.map(v => (
+            <li key={v.name}><code className="text-cyan-700 dark:text-cyan-300">{`{{${v.name}}}`}</code> {v.description}</li>
+          ))}
+        </ul>
+
+        <details className="mt-4 text-sm">
+          <summary className="cursor-pointer text-gray-500 dark:text-gray-400">Preview</summary>
+          <p className="mt-2 whitespace-pre-wrap rounded-md bg-gray-100 dark:bg-gray-700 p-3 text-xs text-gray-700 dark:text-gray-300">
+            {buildSystemPrompt(persona, { ...PREVIEW_CONTEXT, userName: draft.userName })}
+          </p>
+        </details>
+
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+          Changes apply to the next typed message and the next live session.
+        </p>
+        <div className="flex justify-end gap-3 mt-4">
+          <button type="button" onClick={onClose} className="py-2 px-4 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">
+            Cancel
+          </button>
+          <button type="submit" className="bg-cyan-600 hover:bg-cyan-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-300">
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PersonaSettings;
@@ -1,31 +1,78 @@
 import React from 'react';
 import { VideoCameraIcon, VideoCameraSlashIcon } from './icons';
+import { FACE_DETECTORS, FaceDetectorVariant, ModelLoadProgress } from '../services/faceDetectors';
 
 interface SessionControlProps {
   isActive: boolean;
   onToggle: () => void;
   disabled?: boolean;
+  // Set while face models are downloading.
+  loadProgress: ModelLoadProgress | null;
+  detector: FaceDetectorVariant;
+  onDetectorChange: (variant: FaceDetectorVariant) => void;
 }
 
-const SessionControl: React.FC<SessionControlProps> = ({ isActive, onToggle, disabled }) => {
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const SessionControl: React.FC<SessionControlProps> = ({ isActive, onToggle, disabled, loadProgress, detector, onDetectorChange }) => {
   const Icon = isActive ? VideoCameraSlashIcon : VideoCameraIcon;
+  const fraction = loadProgress?.totalBytes ? Math.min(1, loadProgress.loadedBytes / loadProgress.totalBytes) : null;
   let text = isActive ? 'End Session' : 'Start Session';
   if (disabled && !isActive) {
-      text = 'Loading AI...';
+      text = fraction !== null ? `Loading models... ${Math.round(fraction * 100)}%` : 'Loading models...';
   }
   const bgColor = isActive ? 'bg-red-600 hover:bg-red-500' : 'bg-green-600 hover:bg-green-500';
   const disabledClasses = 'disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-wait';
 
   return (
-    <button
-      onClick={onToggle}
-      disabled={disabled}
-      className={`w-full flex items-center justify-center gap-2 py-3 px-4 rounded-lg text-white font-semibold transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-800 focus:ring-white ${bgColor} ${disabledClasses}`}
-    >
-      <Icon className="h-6 w-6" />
-      <span>{text}</span>
-    </button>
+    <div className="space-y-2">
+      <button
+        onClick={onToggle}
+        disabled={disabled}
+        className={`w-full flex items-center justify-center gap-2 py-3 px-4 rounded-lg text-white font-semibold transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-800 focus:ring-white ${bgColor} ${disabledClasses}`}
+      >
+        <Icon className="h-6 w-6" />
+        <span>{text}</span>
+      </button>
+      {loadProgress && disabled && (
+        <div>
+          <div className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full bg-cyan-500 dark:bg-cyan-400 transition-[width] duration-200 ${fraction === null ? 'animate-pulse w-full' : ''}`}
+              style={fraction !== null ? { width: `${fraction * 100}%` } : undefined}
+            ></div>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {loadProgress.totalBytes
+              ? `${formatMegabytes(loadProgress.loadedBytes)} of ${formatMegabytes(loadProgress.totalBytes)}`
+              : 'Preparing face models'}
+          </p>
+        </div>
+      )}
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-gray-500 dark:text-gray-400">Face detector</span>
+        <div className="flex flex-1 rounded-lg bg-gray-200 dark:bg-gray-700 p-0.5" role="radiogroup" aria-label="Face detector">
+          {(Object.keys(FACE_DETECTORS) as FaceDetectorVariant[]).map(variant => (
+            <button
+              key={variant}
+              role="radio"
+              aria-checked={detector === variant}
+              onClick={() => onDetectorChange(variant)}
+              disabled={isActive}
+              title={isActive ? 'End the session to change the detector' : FACE_DETECTORS[variant].description}
+              className={`flex-1 rounded-md py-1 px-2 transition-colors duration-200 disabled:cursor-not-allowed ${
+                detector === variant
+                  ? 'bg-white dark:bg-gray-800 text-cyan-700 dark:text-cyan-300 font-semibold shadow'
+                  : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white disabled:opacity-50'
+              }`}
+            >
+              {FACE_DETECTORS[variant].label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
   );
 };
 
-export default SessionControl;
\ No newline at end of file
+export default SessionControl;
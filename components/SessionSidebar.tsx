@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { SessionSummary } from '../services/sessionStore';
+import { PencilIcon, PlusIcon, TrashIcon, XMarkIcon } from './icons';
+
+interface SessionSidebarProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessions: SessionSummary[];
+  currentSessionId: string | null;
+  onNewSession: () => void;
+  onOpenSession: (id: string) => void;
+  onRenameSession: (id: string, title: string) => void;
+  onDeleteSession: (id: string) => void;
+  disabled: boolean;
+  error: string | null;
+}
+
+const SessionItem: React.FC<{
+  session: SessionSummary;
+  isCurrent: boolean;
+  disabled: boolean;
+  onOpen: () => void;
+  onRename: (title: string) => void;
+  onDelete: () => void;
+}> = ({ session, isCurrent, disabled, onOpen, onRename, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState(session.title);
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    onRename(title);
+    setIsEditing(false);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete "${session.title}"? This cannot be undone.`)) {
+      onDelete();
+    }
+  };
+
+  return (
+    <li className={`group rounded-md p-2 ${isCurrent ? 'bg-cyan-600/10 dark:bg-cyan-400/10' : 'hover:bg-gray-100 dark:hover:bg-gray-700/50'}`}>
+      {isEditing ? (
+        <form onSubmit={handleRename}>
+          <input
+            autoFocus
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onBlur={handleRename}
+            onKeyDown={(e) => { if (e.key === 'Escape') { setTitle(session.title); setIsEditing(false); } }}
+            className="w-full bg-gray-100 dark:bg-gray-700 rounded-md py-1 px-2 text-sm text-gray-900 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            aria-label="Session title"
+          />
+        </form>
+      ) : (
+        <div className="flex items-start gap-2">
+          <button
+            onClick={onOpen}
+            disabled={disabled && !isCurrent}
+            className="flex-1 text-left min-w-0 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <p className={`text-sm truncate ${isCurrent ? 'font-semibold text-cyan-700 dark:text-cyan-300' : 'text-gray-800 dark:text-gray-200'}`}>{session.title}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {new Date(session.updatedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} · {session.messageCount} messages
+            </p>
+          </button>
+          <button
+            onClick={() => { setTitle(session.title); setIsEditing(true); }}
+            className="p-1 rounded text-gray-400 hover:text-gray-700 dark:hover:text-white"
+            aria-label={`Rename ${session.title}`}
+          >
+            <PencilIcon className="h-4 w-4" />
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={disabled && isCurrent}
+            className="p-1 rounded text-gray-400 hover:text-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label={`Delete ${session.title}`}
+          >
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </li>
+  );
+};
+
+const SessionSidebar: React.FC<SessionSidebarProps> = ({
+  isOpen, onClose, sessions, currentSessionId, onNewSession, onOpenSession, onRenameSession, onDeleteSession, disabled, error
+}) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex">
+      <div className="absolute inset-0 bg-gray-900/50" onClick={onClose}></div>
+      <aside className="relative w-80 max-w-[85vw] h-full bg-white dark:bg-gray-800 shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-bold text-cyan-600 dark:text-cyan-400">Sessions</h2>
+          <button onClick={onClose} className="p-1 rounded text-gray-500 hover:text-gray-900 dark:hover:text-white" aria-label="Close session list">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+        <div className="p-4">
+          <button
+            onClick={onNewSession}
+            disabled={disabled}
+            className="w-full flex items-center justify-center gap-2 bg-cyan-600 hover:bg-cyan-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-300 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed"
+          >
+            <PlusIcon className="h-5 w-5" />
+            New Session
+          </button>
+          {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+        </div>
+        <ul className="flex-grow overflow-y-auto px-2 pb-4 space-y-1">
+          {sessions.length === 0 ? (
+            <p className="text-gray-500 text-sm text-center mt-4">No saved sessions yet</p>
+          ) : sessions.map(session => (
+            <SessionItem
+              key={session.id}
+              session={session}
+              isCurrent={session.id === currentSessionId}
+              disabled={disabled}
+              onOpen={() => onOpenSession(session.id)}
+              onRename={(title) => onRenameSession(session.id, title)}
+              onDelete={() => onDeleteSession(session.id)}
+            />
+          ))}
+        </ul>
+        <p className="text-xs text-gray-400 dark:text-gray-500 p-4 border-t border-gray-200 dark:border-gray-700">
+          Sessions are stored only in this browser and never uploaded.
+        </p>
+      </aside>
+    </div>
+  );
+};
+
+export default SessionSidebar;
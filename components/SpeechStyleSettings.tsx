@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { FusedEmotion } from '../types';
+import { XMarkIcon } from './icons';
+import {
+  DEFAULT_SPEECH_STYLES, SPEECH_GAIN_RANGE, SPEECH_RATE_RANGE, SpeechStyle, SpeechStyleTable,
+} from '../services/speechStyle';
+
+interface SpeechStyleSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  styles: SpeechStyleTable;
+  onSave: (styles: SpeechStyleTable) => void;
+}
+
+const SpeechStyleSettings: React.FC<SpeechStyleSettingsProps> = ({ isOpen, onClose, styles, onSave }) => {
+  if (!isOpen) return null;
+  return <SpeechStyleDialog onClose={onClose} styles={styles} onSave={onSave} />;
+};
+
+const SpeechStyleDialog: React.FC<Omit<SpeechStyleSettingsProps, 'isOpen'>> = ({ onClose, styles, onSave }) => {
+  const [draft, setDraft] = useState<SpeechStyleTable>(styles);
+
+  const update = (emotion: FusedEmotion, changes: Partial<SpeechStyle>) => {
+    setDraft(d => ({ ...d, [emotion]: { ...d[emotion], ...changes } }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+    onClose();
+  };
+
+  const sliderClasses = "w-full accent-cyan-600";
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/75 dark:bg-black/75 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto animate-fade-in-up">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-2xl font-bold text-cyan-600 dark:text-cyan-400">Speech Style</h2>
+          <button type="button" onClick={onClose} className="p-1 rounded text-gray-500 hover:text-gray-900 dark:hover:text-white" aria-label="Close speech style settings">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Spoken replies adapt to how you seem to feel. The instruction steers the voice; speed and volume are applied on this device.
+        </p>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="font-medium pb-2 pr-2">Mood</th>
+              <th className="font-medium pb-2 pr-2">Instruction</th>
+              <th className="font-medium pb-2 pr-2 w-28">Speed</th>
+              <th className="font-medium pb-2 w-28">Volume</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(draft) as FusedEmotion[]).map(emotion => (
+              <tr key={emotion} className="border-t border-gray-200 dark:border-gray-700">
+                <td className="py-2 pr-2 font-semibold text-gray-800 dark:text-gray-200">{emotion}</td>
+                <td className="py-2 pr-2">
+                  <input
+                    value={draft[emotion].prompt}
+                    onChange={(e) => update(emotion, { prompt: e.target.value })}
+                    placeholder="No instruction"
+                    className="w-full bg-gray-100 dark:bg-gray-700 rounded-md py-1 px-2 text-gray-900 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                    aria-label={`${emotion} instruction`}
+                  />
+                </td>
+                <td className="py-2 pr-2">
+                  <input
+                    type="range"
+                    min={SPEECH_RATE_RANGE.min}
+                    max={SPEECH_RATE_RANGE.max}
+                    step={0.05}
+                    value={draft[emotion].rate}
+                    onChange={(e) => update(emotion, { rate: Number(e.target.value) })}
+                    className={sliderClasses}
+                    aria-label={`${emotion} speed`}
+                  />
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{draft[emotion].rate.toFixed(2)}×</span>
+                </td>
+                <td className="py-2">
+                  <input
+                    type="range"
+                    min={SPEECH_GAIN_RANGE.min}
+                    max={SPEECH_GAIN_RANGE.max}
+                    step={0.05}
+                    value={draft[emotion].gain}
+                    onChange={(e) => update(emotion, { gain: Number(e.target.value) })}
+                    className={sliderClasses}
+                    aria-label={`${emotion} volume`}
+                  />
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{Math.round(draft[emotion].gain * 100)}%</span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex items-center justify-between gap-3 mt-4">
+          <button type="button" onClick={() => setDraft(DEFAULT_SPEECH_STYLES)} className="text-sm text-cyan-600 dark:text-cyan-400 hover:underline">
+            Reset to defaults
+          </button>
+          <div className="flex gap-3">
+            <button type="button" onClick={onClose} className="py-2 px-4 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">
+              Cancel
+            </button>
+            <button type="submit" className="bg-cyan-600 hover:bg-cyan-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-300">
+              Save
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SpeechStyleSettings;
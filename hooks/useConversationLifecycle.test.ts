@@ -0,0 +1,67 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { useConversationLifecycle } from './useConversationLifecycle';
+
+describe('useConversationLifecycle', () => {
+  it('tears down exactly once when a failing session also closes', () => {
+    const onTeardown = vi.fn();
+    const { result } = renderHook(() => useConversationLifecycle(onTeardown));
+
+    act(() => {
+      result.current.dispatch({ type: 'connect' });
+      result.current.dispatch({ type: 'connected' });
+      result.current.dispatch({ type: 'user-speech' });
+    });
+    expect(onTeardown).not.toHaveBeenCalled();
+
+    act(() => {
+      result.current.dispatch({ type: 'fail', message: 'Lost the connection.' });
+      result.current.dispatch({ type: 'closed' });
+      result.current.dispatch({ type: 'disconnect' });
+    });
+    expect(onTeardown).toHaveBeenCalledTimes(1);
+    expect(result.current.phase).toBe('idle');
+  });
+
+  it('does not tear down while reconnecting', () => {
+    const onTeardown = vi.fn();
+    const { result } = renderHook(() => useConversationLifecycle(onTeardown));
+
+    act(() => {
+      result.current.dispatch({ type: 'connect' });
+      result.current.dispatch({ type: 'connected' });
+      result.current.dispatch({ type: 'connection-lost' });
+      result.current.dispatch({ type: 'connected' });
+    });
+    expect(onTeardown).not.toHaveBeenCalled();
+
+    act(() => result.current.dispatch({ type: 'disconnect' }));
+    expect(onTeardown).toHaveBeenCalledTimes(1);
+  });
+
+  it('exposes the phase between renders and the error after a failure', () => {
+    const { result } = renderHook(() => useConversationLifecycle(() => {}));
+
+    act(() => {
+      result.current.dispatch({ type: 'connect' });
+      // Server callbacks read the phase before React re-renders.
+      expect(result.current.getPhase()).toBe('connecting');
+      result.current.dispatch({ type: 'fail', message: 'Microphone blocked.' });
+    });
+    expect(result.current.phase).toBe('error');
+    expect(result.current.error).toBe('Microphone blocked.');
+  });
+
+  it('calls the latest teardown callback', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const { result, rerender } = renderHook(({ onTeardown }) => useConversationLifecycle(onTeardown), { initialProps: { onTeardown: first } });
+
+    act(() => result.current.dispatch({ type: 'connect' }));
+    rerender({ onTeardown: second });
+    act(() => result.current.dispatch({ type: 'disconnect' }));
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,31 @@
+import { useState, useRef, useCallback } from 'react';
+import {
+  ConversationEvent, ConversationPhase, ConversationState, INITIAL_CONVERSATION_STATE, requiresTeardown,
+  transitionConversation,
+} from '../services/conversationLifecycle';
+
+/**
+ * Holds the live conversation state machine.
+ * @param onTeardown Releases the live session's resources; called exactly once each
+ *   time the conversation leaves its live phases.
+ */
+export const useConversationLifecycle = (onTeardown: () => void) => {
+  const [state, setState] = useState<ConversationState>(INITIAL_CONVERSATION_STATE);
+  // Server callbacks need the current phase synchronously, between renders.
+  const stateRef = useRef(state);
+  const onTeardownRef = useRef(onTeardown);
+  onTeardownRef.current = onTeardown;
+
+  const dispatch = useCallback((event: ConversationEvent) => {
+    const previous = stateRef.current;
+    const next = transitionConversation(previous, event);
+    if (next === previous) return;
+    stateRef.current = next;
+    setState(next);
+    if (requiresTeardown(previous.phase, next.phase)) onTeardownRef.current();
+  }, []);
+
+  const getPhase = useCallback((): ConversationPhase => stateRef.current.phase, []);
+
+  return { phase: state.phase, error: state.error, dispatch, getPhase };
+};
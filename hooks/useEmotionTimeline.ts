@@ -0,0 +1,27 @@
+import { useState, useEffect, useCallback } from 'react';
+import { EmotionTimelineEntry, FusionResult } from '../types';
+
+// One hour at the default one-second sampling rate.
+const MAX_ENTRIES = 3600;
+
+export const useEmotionTimeline = (sample: () => FusionResult, isRecording: boolean, intervalMs = 1000) => {
+  const [entries, setEntries] = useState<EmotionTimelineEntry[]>([]);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = window.setInterval(() => {
+      const entry: EmotionTimelineEntry = { timestamp: Date.now(), fusion: sample() };
+      setEntries(prev => {
+        const next = [...prev, entry];
+        return next.length > MAX_ENTRIES ? next.slice(next.length - MAX_ENTRIES) : next;
+      });
+    }, intervalMs);
+    return () => clearInterval(interval);
+  }, [isRecording, sample, intervalMs]);
+
+  const clearTimeline = useCallback(() => {
+    setEntries([]);
+  }, []);
+
+  return { timeline: entries, setTimeline: setEntries, clearTimeline };
+};
@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FusedEmotion, FusionResult } from '../types';
+import { useLiveEmotionUpdates } from './useLiveEmotionUpdates';
+
+const reading = (emotion: FusedEmotion): FusionResult => ({
+  emotion,
+  confidence: 0.9,
+  scores: { Happy: 0, Sad: 0, Angry: 0, Neutral: 0, Surprised: 0, Calm: 0, [emotion]: 0.9 },
+  modalities: {},
+});
+
+describe('useLiveEmotionUpdates', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  const setup = (initial: FusedEmotion) => {
+    let current = reading(initial);
+    let canSend = true;
+    const sample = () => current;
+    const sendUpdate = vi.fn();
+    const { result } = renderHook(() => useLiveEmotionUpdates(true, sample, sendUpdate, () => canSend));
+    return {
+      sendUpdate,
+      resetBaseline: result.current.resetBaseline,
+      feel: (emotion: FusedEmotion) => { current = reading(emotion); },
+      setCanSend: (value: boolean) => { canSend = value; },
+    };
+  };
+
+  it('holds a change back while the model is speaking and sends it once the floor is free', () => {
+    const { sendUpdate, resetBaseline, feel, setCanSend } = setup('Neutral');
+    resetBaseline('Neutral');
+    setCanSend(false);
+    feel('Sad');
+    act(() => vi.advanceTimersByTime(30000));
+    expect(sendUpdate).not.toHaveBeenCalled();
+
+    setCanSend(true);
+    act(() => vi.advanceTimersByTime(5000));
+    expect(sendUpdate).toHaveBeenCalledTimes(1);
+    expect(sendUpdate.mock.calls[0][0].emotion).toBe('Sad');
+  });
+
+  it('measures changes from the emotion in the latest connection prompt', () => {
+    const { sendUpdate, resetBaseline, feel } = setup('Neutral');
+    resetBaseline('Neutral');
+    feel('Sad');
+    act(() => vi.advanceTimersByTime(10000));
+    // A reconnect bakes the current mood into its prompt, so repeating it would be redundant.
+    resetBaseline('Sad');
+    act(() => vi.advanceTimersByTime(60000));
+    expect(sendUpdate).not.toHaveBeenCalled();
+
+    feel('Happy');
+    act(() => vi.advanceTimersByTime(5000));
+    expect(sendUpdate).toHaveBeenCalledTimes(1);
+    expect(sendUpdate.mock.calls[0][0].emotion).toBe('Happy');
+  });
+});
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { FusedEmotion, FusionResult } from '../types';
+import { createEmotionUpdateGate } from '../services/liveEmotionUpdates';
+
+const CHECK_INTERVAL_MS = 1000;
+
+/**
+ * While a live session is running, periodically samples the fused emotion and
+ * passes it on when the mood has meaningfully changed.
+ * @param canSend Whether an update may go out now; updates wait while the model is
+ *   speaking, since a context turn mid-reply can cut it off.
+ * @returns `resetBaseline`, to be called with the emotion written into each new
+ *   connection's system prompt, including reconnects.
+ */
+export const useLiveEmotionUpdates = (
+  isLive: boolean,
+  sample: () => FusionResult,
+  sendUpdate: (result: FusionResult) => void,
+  canSend: () => boolean,
+) => {
+  const gateRef = useRef(createEmotionUpdateGate());
+  const sendUpdateRef = useRef(sendUpdate);
+  sendUpdateRef.current = sendUpdate;
+  const canSendRef = useRef(canSend);
+  canSendRef.current = canSend;
+
+  const resetBaseline = useCallback((emotion: FusedEmotion) => {
+    gateRef.current.reset(emotion, Date.now());
+  }, []);
+
+  useEffect(() => {
+    if (!isLive) return;
+    const interval = window.setInterval(() => {
+      // Skipping the gate entirely keeps a pending change pending until it can be sent.
+      if (!canSendRef.current()) return;
+      const result = sample();
+      if (gateRef.current.check(result, Date.now())) {
+        sendUpdateRef.current(result);
+      }
+    }, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isLive, sample]);
+
+  return { resetBaseline };
+};
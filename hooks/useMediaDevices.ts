@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  DeviceKind, DeviceLists, DevicePreferences, EMPTY_DEVICE_LISTS, getDevicePreferences, listMediaDevices,
+  saveDevicePreferences,
+} from '../services/deviceManager';
+
+/**
+ * Keeps the list of cameras, microphones and speakers current as devices are
+ * plugged in or removed, along with the user's remembered choices.
+ */
+export const useMediaDevices = () => {
+  const [devices, setDevices] = useState<DeviceLists>(EMPTY_DEVICE_LISTS);
+  const [preferences, setPreferences] = useState<DevicePreferences>(getDevicePreferences);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDevices(await listMediaDevices());
+    } catch (err) {
+      console.error("Error listing media devices:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  const selectDevice = useCallback((kind: DeviceKind, deviceId: string | undefined) => {
+    setPreferences(current => {
+      const next = { ...current, [kind]: deviceId || undefined };
+      saveDevicePreferences(next);
+      return next;
+    });
+  }, []);
+
+  return { devices, preferences, selectDevice, refresh };
+};
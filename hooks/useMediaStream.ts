@@ -1,31 +1,53 @@
-
 import { useState, useRef, useCallback } from 'react';
+import { openInputDevice } from '../services/deviceManager';
+import { errorMessage } from '../services/serviceErrors';
 
-export const useMediaStream = () => {
+/**
+ * Owns the camera stream.
+ * @param onTrackEnded Called when the camera stops on its own, e.g. because it was unplugged.
+ */
+export const useMediaStream = (onTrackEnded?: () => void) => {
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [error, setError] = useState<string | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // Bumped by every start and stop, so a camera that opens after being superseded can be told apart.
+  const requestRef = useRef(0);
+  const onTrackEndedRef = useRef(onTrackEnded);
+  onTrackEndedRef.current = onTrackEnded;
 
-  const startStream = useCallback(async (constraints: MediaStreamConstraints) => {
+  /**
+   * Starts the camera, or switches to another one while running.
+   * @returns Whether the preferred camera was missing and the default was used, or null on failure.
+   * `superseded` is set when the camera was stopped or switched again while this one was opening;
+   * its stream has then already been closed.
+   */
+  const startStream = useCallback(async (deviceId?: string): Promise<{ usedFallback: boolean; superseded?: boolean } | null> => {
+    const request = ++requestRef.current;
     try {
-      if (streamRef.current) {
-        stopStream();
+      // Open the new camera before closing the old one so a failed switch keeps the picture.
+      const { stream: mediaStream, usedFallback } = await openInputDevice('videoinput', deviceId);
+      if (request !== requestRef.current) {
+        mediaStream.getTracks().forEach(track => track.stop());
+        return { usedFallback: false, superseded: true };
       }
-      const mediaStream = await navigator.mediaDevices.getUserMedia(constraints);
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      mediaStream.getVideoTracks().forEach(track => track.addEventListener('ended', () => {
+        if (streamRef.current === mediaStream) onTrackEndedRef.current?.();
+      }));
       streamRef.current = mediaStream;
       setStream(mediaStream);
       setError(null);
+      return { usedFallback };
     } catch (err) {
+      if (request !== requestRef.current) return { usedFallback: false, superseded: true };
       console.error("Error accessing media devices.", err);
-      if (err instanceof DOMException) {
-        setError(`Error: ${err.name} - ${err.message}. Please check permissions.`);
-      } else {
-        setError("An unknown error occurred while accessing media devices.");
-      }
+      setError(errorMessage(err, "An unknown error occurred while accessing media devices."));
+      return null;
     }
   }, []);
 
   const stopStream = useCallback(() => {
+    requestRef.current++;
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
@@ -0,0 +1,89 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ChatMessage } from '../types';
+import { loadAudioClip } from '../services/sessionStore';
+import { decodeAudioData } from '../utils/audioUtils';
+
+export interface MessageAudioPlayback {
+  messageId: string;
+  isPlaying: boolean;
+}
+
+/**
+ * Replays the cached speech of AI messages. Replays get their own audio context so
+ * pausing can suspend it and resume exactly where it stopped.
+ * @param connectOutput Returns the node replays should feed, e.g. the output level meter.
+ */
+export const useMessageAudioPlayer = (connectOutput?: (ctx: AudioContext) => AudioNode) => {
+  const [playback, setPlayback] = useState<MessageAudioPlayback | null>(null);
+  const contextRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Guards against an older play() finishing its clip lookup after a newer one.
+  const requestRef = useRef(0);
+  const connectOutputRef = useRef(connectOutput);
+  connectOutputRef.current = connectOutput;
+
+  const stop = useCallback(() => {
+    requestRef.current++;
+    const source = sourceRef.current;
+    sourceRef.current = null;
+    if (source) {
+      source.onended = null;
+      try { source.stop(); } catch (e) {}
+    }
+    setPlayback(null);
+  }, []);
+
+  const play = useCallback(async (message: ChatMessage) => {
+    if (!message.audioId) return;
+    stop();
+    const request = requestRef.current;
+    try {
+      const clip = await loadAudioClip(message.audioId);
+      if (!clip) {
+        console.warn(`Audio for message ${message.id} is no longer cached.`);
+        return;
+      }
+      if (!contextRef.current || contextRef.current.state === 'closed') {
+        contextRef.current = new (window.AudioContext || window.webkitAudioContext)();
+      }
+      const ctx = contextRef.current;
+      await ctx.resume();
+      const buffer = await decodeAudioData(new Uint8Array(clip.pcm), ctx, clip.sampleRate, 1);
+      if (request !== requestRef.current) return;
+
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.playbackRate.value = clip.rate;
+      const gain = ctx.createGain();
+      gain.gain.value = clip.gain;
+      source.connect(gain).connect(connectOutputRef.current?.(ctx) ?? ctx.destination);
+      source.onended = () => {
+        if (sourceRef.current !== source) return;
+        sourceRef.current = null;
+        setPlayback(null);
+      };
+      sourceRef.current = source;
+      source.start();
+      setPlayback({ messageId: message.id, isPlaying: true });
+    } catch (err) {
+      console.error("Error replaying message audio:", err);
+      setPlayback(null);
+    }
+  }, [stop]);
+
+  const pause = useCallback(() => {
+    contextRef.current?.suspend().catch(console.error);
+    setPlayback(current => current && { ...current, isPlaying: false });
+  }, []);
+
+  const resume = useCallback(() => {
+    contextRef.current?.resume().catch(console.error);
+    setPlayback(current => current && { ...current, isPlaying: true });
+  }, []);
+
+  useEffect(() => () => {
+    contextRef.current?.close().catch(console.error);
+  }, []);
+
+  return { playback, play, pause, resume, stop };
+};
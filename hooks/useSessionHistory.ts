@@ -0,0 +1,172 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ChatMessage, EmotionTimelineEntry } from '../types';
+import {
+  createSessionTitle, deleteSession, getLastSessionId, listSessions, loadSession, renameSession,
+  saveSession, SessionSummary, setLastSessionId, StoredSession,
+} from '../services/sessionStore';
+
+// Messages stream in chunk by chunk and the timeline ticks every second, so writes are batched.
+const SAVE_INTERVAL_MS = 3000;
+
+interface SessionMeta {
+  id: string;
+  createdAt: number;
+  title: string;
+  hasCustomTitle: boolean;
+}
+
+const createSessionMeta = (): SessionMeta => {
+  const createdAt = Date.now();
+  return { id: crypto.randomUUID(), createdAt, title: createSessionTitle([], createdAt), hasCustomTitle: false };
+};
+
+export const useSessionHistory = (
+  messages: ChatMessage[],
+  timeline: EmotionTimelineEntry[],
+  onRestore: (messages: ChatMessage[], timeline: EmotionTimelineEntry[]) => void,
+) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  const metaRef = useRef<SessionMeta>(createSessionMeta());
+  const latestRef = useRef({ messages, timeline });
+  const isDirtyRef = useRef(false);
+  const isRestoredRef = useRef(false);
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (err) {
+      console.error("Error listing saved sessions:", err);
+      setStorageError("Saved sessions are unavailable in this browser.");
+    }
+  }, []);
+
+  const flush = useCallback(async () => {
+    const { messages, timeline } = latestRef.current;
+    // Never persist an empty conversation; a fresh session only exists once something is said.
+    if (!isDirtyRef.current || !isRestoredRef.current || messages.length === 0) return;
+    isDirtyRef.current = false;
+
+    const meta = metaRef.current;
+    const session: StoredSession = {
+      id: meta.id,
+      title: meta.hasCustomTitle ? meta.title : createSessionTitle(messages, meta.createdAt),
+      hasCustomTitle: meta.hasCustomTitle,
+      createdAt: meta.createdAt,
+      updatedAt: Date.now(),
+      messages: messages.filter(m => !(m.sender === 'ai' && m.text === '...')),
+      timeline,
+    };
+    try {
+      await saveSession(session);
+      setLastSessionId(session.id);
+      setCurrentSessionId(session.id);
+      refreshSessions();
+    } catch (err) {
+      console.error("Error saving session:", err);
+      setStorageError("Could not save this session locally.");
+    }
+  }, [refreshSessions]);
+
+  const applySession = useCallback((session: StoredSession | null) => {
+    metaRef.current = session
+      ? { id: session.id, createdAt: session.createdAt, title: session.title, hasCustomTitle: session.hasCustomTitle }
+      : createSessionMeta();
+    const restored = { messages: session?.messages ?? [], timeline: session?.timeline ?? [] };
+    latestRef.current = restored;
+    isDirtyRef.current = false;
+    setCurrentSessionId(session?.id ?? null);
+    if (session) setLastSessionId(session.id);
+    onRestoreRef.current(restored.messages, restored.timeline);
+  }, []);
+
+  // Resume the most recent session on load.
+  useEffect(() => {
+    const resume = async () => {
+      try {
+        const lastId = getLastSessionId();
+        const session = lastId ? await loadSession(lastId) : null;
+        if (session) applySession(session);
+      } catch (err) {
+        console.error("Error resuming last session:", err);
+      } finally {
+        isRestoredRef.current = true;
+        refreshSessions();
+      }
+    };
+    resume();
+  }, [applySession, refreshSessions]);
+
+  useEffect(() => {
+    if (latestRef.current.messages === messages && latestRef.current.timeline === timeline) return;
+    latestRef.current = { messages, timeline };
+    isDirtyRef.current = true;
+  }, [messages, timeline]);
+
+  useEffect(() => {
+    const interval = window.setInterval(flush, SAVE_INTERVAL_MS);
+    const handlePageHide = () => { flush(); };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, [flush]);
+
+  const startNewSession = useCallback(async () => {
+    await flush();
+    applySession(null);
+  }, [flush, applySession]);
+
+  const openSession = useCallback(async (id: string) => {
+    if (id === metaRef.current.id) return;
+    await flush();
+    try {
+      const session = await loadSession(id);
+      if (session) applySession(session);
+    } catch (err) {
+      console.error("Error opening session:", err);
+      setStorageError("Could not open the saved session.");
+    }
+  }, [flush, applySession]);
+
+  const renameStoredSession = useCallback(async (id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    if (id === metaRef.current.id) {
+      metaRef.current = { ...metaRef.current, title: trimmed, hasCustomTitle: true };
+    }
+    try {
+      await renameSession(id, trimmed);
+      refreshSessions();
+    } catch (err) {
+      console.error("Error renaming session:", err);
+      setStorageError("Could not rename the session.");
+    }
+  }, [refreshSessions]);
+
+  const deleteStoredSession = useCallback(async (id: string) => {
+    try {
+      await deleteSession(id);
+      if (id === metaRef.current.id) applySession(null);
+      refreshSessions();
+    } catch (err) {
+      console.error("Error deleting session:", err);
+      setStorageError("Could not delete the session.");
+    }
+  }, [applySession, refreshSessions]);
+
+  return {
+    sessions,
+    currentSessionId,
+    storageError,
+    startNewSession,
+    openSession,
+    renameSession: renameStoredSession,
+    deleteSession: deleteStoredSession,
+  };
+};
@@ -0,0 +1,132 @@
+import { decode, encode } from '../utils/audioUtils';
+
+/**
+ * Where the Gemini API key lives in the browser.
+ *
+ * The key in use is held in session storage, so it is gone when the tab closes.
+ * Users who want it remembered on this device get an encrypted copy in local
+ * storage instead: AES-GCM with a key derived from their passphrase, so the raw
+ * key is never written to disk. Nothing here talks to the API; validating a key
+ * is `validateApiKey` in the Gemini service.
+ */
+
+const SESSION_STORAGE_KEY = 'gemini-api-key';
+const VAULT_STORAGE_KEY = 'gemini-api-key-vault';
+const VAULT_VERSION = 1;
+const PBKDF2_ITERATIONS = 310000;
+
+interface ApiKeyVault {
+    version: number;
+    salt: string;
+    iv: string;
+    ciphertext: string;
+}
+
+/** The key entered in this tab, if any. Keys baked into the build are not included. */
+export function getSessionApiKey(): string | null {
+    return sessionStorage.getItem(SESSION_STORAGE_KEY);
+}
+
+export function setSessionApiKey(apiKey: string) {
+    sessionStorage.setItem(SESSION_STORAGE_KEY, apiKey);
+}
+
+export function clearSessionApiKey() {
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+}
+
+/** The key to call the API with: one entered in this tab, then the one configured at build time. */
+export function getApiKey(): string | null {
+    return getSessionApiKey() || process.env.API_KEY || null;
+}
+
+const readVault = (): ApiKeyVault | null => {
+    try {
+        const vault = JSON.parse(localStorage.getItem(VAULT_STORAGE_KEY) ?? 'null');
+        return vault?.version === VAULT_VERSION ? vault : null;
+    } catch {
+        return null;
+    }
+};
+
+export function hasSavedApiKey(): boolean {
+    return readVault() !== null;
+}
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: salt as BufferSource, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+/**
+ * Remembers `apiKey` on this device, encrypted with `passphrase`.
+ */
+export async function saveApiKey(apiKey: string, passphrase: string): Promise<void> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(apiKey));
+    const vault: ApiKeyVault = { version: VAULT_VERSION, salt: encode(salt), iv: encode(iv), ciphertext: encode(new Uint8Array(ciphertext)) };
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(vault));
+}
+
+/**
+ * Decrypts the key remembered on this device.
+ * @throws If there is no saved key or the passphrase is wrong.
+ */
+export async function unlockSavedApiKey(passphrase: string): Promise<string> {
+    const vault = readVault();
+    if (!vault) throw new Error("No saved API key was found on this device.");
+    try {
+        const key = await deriveKey(passphrase, decode(vault.salt));
+        const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: decode(vault.iv) as BufferSource }, key, decode(vault.ciphertext) as BufferSource);
+        return new TextDecoder().decode(plaintext);
+    } catch {
+        // AES-GCM cannot tell a wrong passphrase from a tampered vault; both fail authentication.
+        throw new Error("That passphrase did not unlock the saved key.");
+    }
+}
+
+export function forgetSavedApiKey() {
+    localStorage.removeItem(VAULT_STORAGE_KEY);
+}
+
+/** Shows just enough of a key to recognize it, e.g. `AIza…x9Q2`. */
+export function maskApiKey(apiKey: string): string {
+    if (apiKey.length <= 8) return '•'.repeat(apiKey.length);
+    return `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}`;
+}
+
+// Google API keys, plus the `key=` query parameter they are sent in.
+const API_KEY_PATTERN = /AIza[0-9A-Za-z_-]{35}/g;
+const KEY_PARAM_PATTERN = /([?&]key=)[^&\s"']+/g;
+
+/**
+ * Masks API keys in text headed for logs or exports.
+ * @param apiKey The key in use, masked even where it does not look like a Google key.
+ */
+export function redactSecrets(text: string, apiKey: string | null): string {
+    let redacted = text.replace(KEY_PARAM_PATTERN, '$1***').replace(API_KEY_PATTERN, maskApiKey);
+    if (apiKey) redacted = redacted.split(apiKey).join(maskApiKey(apiKey));
+    return redacted;
+}
+
+/**
+ * Renders an error for the console with any API keys masked.
+ */
+export function redactForLog(error: unknown): string {
+    const apiKey = getApiKey();
+    if (error instanceof Error) return redactSecrets(error.stack ?? `${error.name}: ${error.message}`, apiKey);
+    if (typeof error === 'string') return redactSecrets(error, apiKey);
+    try {
+        return redactSecrets(JSON.stringify(error) ?? String(error), apiKey);
+    } catch {
+        return String(error);
+    }
+}
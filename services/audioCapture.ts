@@ -0,0 +1,193 @@
+/**
+ * Microphone capture for live sessions.
+ *
+ * An AudioWorklet resamples the microphone to 16 kHz mono, converts it to 16-bit
+ * PCM and frames it into fixed-size chunks on the audio thread, so the main thread
+ * only forwards finished chunks. Devices that refuse a 16 kHz context (common on
+ * 48 kHz-only hardware and in Firefox) are captured at their native rate and
+ * resampled in the worklet.
+ */
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+const DEFAULT_CHUNK_MS = 100;
+const PROCESSOR_NAME = 'pcm-capture';
+
+export interface AudioCaptureChunk {
+    /** 16-bit mono PCM at `CAPTURE_SAMPLE_RATE`, ready to send to the model. */
+    pcm: Int16Array;
+    /** The same audio as floats, for local analysis. */
+    samples: Float32Array;
+    /** Level of this chunk, 0..1. */
+    rms: number;
+    peak: number;
+}
+
+export interface AudioCaptureOptions {
+    onChunk: (chunk: AudioCaptureChunk) => void;
+    chunkMs?: number;
+}
+
+export interface AudioCapture {
+    context: AudioContext;
+    /** The microphone node, for attaching extra analysis such as a level meter. */
+    source: MediaStreamAudioSourceNode;
+    stop: () => void;
+}
+
+// Loaded from a Blob URL so the capture works without any bundler-specific worker
+// handling. Plain JavaScript: it runs in the AudioWorkletGlobalScope as-is.
+const CAPTURE_PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+    constructor(options) {
+        super();
+        const { targetSampleRate, chunkSize } = options.processorOptions;
+        this.ratio = sampleRate / targetSampleRate;
+        this.chunk = new Float32Array(chunkSize);
+        this.chunkLength = 0;
+        this.position = 0;
+        this.sum = 0;
+        this.count = 0;
+        this.previous = 0;
+    }
+
+    push(value) {
+        this.chunk[this.chunkLength++] = value;
+        if (this.chunkLength === this.chunk.length) this.flush();
+    }
+
+    flush() {
+        const samples = this.chunk.slice(0, this.chunkLength);
+        const pcm = new Int16Array(samples.length);
+        let sumSquares = 0;
+        let peak = 0;
+        for (let i = 0; i < samples.length; i++) {
+            const s = Math.max(-1, Math.min(1, samples[i]));
+            pcm[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+            sumSquares += s * s;
+            peak = Math.max(peak, Math.abs(s));
+        }
+        const rms = samples.length ? Math.sqrt(sumSquares / samples.length) : 0;
+        this.port.postMessage({ pcm, samples, rms, peak }, [pcm.buffer, samples.buffer]);
+        this.chunkLength = 0;
+    }
+
+    process(inputs) {
+        const input = inputs[0] && inputs[0][0];
+        if (!input) return true;
+
+        if (this.ratio === 1) {
+            for (let i = 0; i < input.length; i++) this.push(input[i]);
+        } else if (this.ratio > 1) {
+            // Downsample by averaging each output period, which doubles as a simple anti-aliasing filter.
+            for (let i = 0; i < input.length; i++) {
+                this.sum += input[i];
+                this.count++;
+                this.position += 1;
+                if (this.position >= this.ratio) {
+                    this.position -= this.ratio;
+                    this.push(this.sum / this.count);
+                    this.sum = 0;
+                    this.count = 0;
+                }
+            }
+        } else {
+            // Upsample by linear interpolation between consecutive input samples.
+            for (let i = 0; i < input.length; i++) {
+                const current = input[i];
+                while (this.position < 1) {
+                    this.push(this.previous + (current - this.previous) * this.position);
+                    this.position += this.ratio;
+                }
+                this.position -= 1;
+                this.previous = current;
+            }
+        }
+        return true;
+    }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+const createContext = (sampleRate?: number): AudioContext => {
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+    return sampleRate ? new AudioContextClass({ sampleRate }) : new AudioContextClass();
+};
+
+/**
+ * Connects the stream to a context, preferring one that already runs at 16 kHz.
+ * Some browsers reject either the sample rate itself or connecting a microphone
+ * to a context whose rate differs from the device's.
+ */
+const connectStream = (stream: MediaStream): { context: AudioContext; source: MediaStreamAudioSourceNode } => {
+    try {
+        const context = createContext(CAPTURE_SAMPLE_RATE);
+        try {
+            return { context, source: context.createMediaStreamSource(stream) };
+        } catch (err) {
+            context.close().catch(() => {});
+            throw err;
+        }
+    } catch (err) {
+        console.warn("16 kHz capture not supported on this device, resampling from the native rate:", err);
+        const context = createContext();
+        return { context, source: context.createMediaStreamSource(stream) };
+    }
+};
+
+/**
+ * Starts capturing the first audio track of `stream`.
+ * @throws Error if the browser does not support AudioWorklet.
+ */
+export async function startAudioCapture(stream: MediaStream, { onChunk, chunkMs = DEFAULT_CHUNK_MS }: AudioCaptureOptions): Promise<AudioCapture> {
+    const { context, source } = connectStream(stream);
+    if (!context.audioWorklet) {
+        context.close().catch(() => {});
+        throw new Error("This browser does not support AudioWorklet audio capture.");
+    }
+
+    const moduleUrl = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    try {
+        await context.audioWorklet.addModule(moduleUrl);
+    } catch (err) {
+        context.close().catch(() => {});
+        throw err;
+    } finally {
+        URL.revokeObjectURL(moduleUrl);
+    }
+
+    const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        processorOptions: {
+            targetSampleRate: CAPTURE_SAMPLE_RATE,
+            chunkSize: Math.round((CAPTURE_SAMPLE_RATE * chunkMs) / 1000),
+        },
+    });
+    node.port.onmessage = (event: MessageEvent<AudioCaptureChunk>) => onChunk(event.data);
+
+    // The worklet only runs while connected to the destination; keep it silent.
+    const mute = context.createGain();
+    mute.gain.value = 0;
+    source.connect(node);
+    node.connect(mute);
+    mute.connect(context.destination);
+
+    if (context.state === 'suspended') {
+        await context.resume().catch(() => {});
+    }
+
+    return {
+        context,
+        source,
+        stop: () => {
+            node.port.onmessage = null;
+            source.disconnect();
+            node.disconnect();
+            mute.disconnect();
+            context.close().catch(console.error);
+        },
+    };
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+    ConversationEvent, ConversationPhase, ConversationState, INITIAL_CONVERSATION_STATE, isConnectedPhase, isLivePhase,
+    requiresTeardown, transitionConversation,
+} from './conversationLifecycle';
+
+/** Feeds `events` in order, returning every state passed through after the initial one. */
+const run = (events: ConversationEvent[], from: ConversationState = INITIAL_CONVERSATION_STATE) => {
+    const states: ConversationState[] = [];
+    events.reduce((state, event) => {
+        const next = transitionConversation(state, event);
+        states.push(next);
+        return next;
+    }, from);
+    return states;
+};
+
+const phasesOf = (events: ConversationEvent[], from?: ConversationState) => run(events, from).map(s => s.phase);
+
+const at = (phase: ConversationPhase): ConversationState => ({ phase, error: null });
+
+describe('transitionConversation', () => {
+    it('runs a conversation with a dropped connection', () => {
+        expect(phasesOf([
+            { type: 'connect' }, { type: 'connected' }, { type: 'user-speech' }, { type: 'ai-speech' },
+            { type: 'turn-complete' }, { type: 'connection-lost' }, { type: 'connected' }, { type: 'disconnect' },
+        ])).toEqual(['connecting', 'listening', 'user-speaking', 'ai-speaking', 'listening', 'reconnecting', 'listening', 'idle']);
+    });
+
+    it('keeps the error when the transport closes after a failure', () => {
+        const [failed, closed] = run([{ type: 'fail', message: 'Lost the connection.' }, { type: 'closed' }], at('listening'));
+        expect(failed).toEqual({ phase: 'error', error: 'Lost the connection.' });
+        expect(closed).toBe(failed);
+    });
+
+    it('clears the error when the user tries again', () => {
+        const failed = transitionConversation(at('connecting'), { type: 'fail', message: 'Microphone blocked.' });
+        expect(transitionConversation(failed, { type: 'connect' })).toEqual({ phase: 'connecting', error: null });
+    });
+
+    it('lets the user dismiss an error', () => {
+        const failed = transitionConversation(at('listening'), { type: 'fail', message: 'Lost the connection.' });
+        expect(transitionConversation(failed, { type: 'disconnect' })).toEqual(INITIAL_CONVERSATION_STATE);
+    });
+
+    it('ignores speech and turn events while reconnecting', () => {
+        const reconnecting = at('reconnecting');
+        for (const event of [{ type: 'user-speech' }, { type: 'ai-speech' }, { type: 'turn-complete' }] as ConversationEvent[]) {
+            expect(transitionConversation(reconnecting, event)).toBe(reconnecting);
+        }
+    });
+
+    it('does not treat a close during reconnecting as the end of the session', () => {
+        // The dropped transport closing is what started the reconnect; only a failure or the user ends it.
+        expect(phasesOf([{ type: 'closed' }, { type: 'fail', message: 'Gave up.' }], at('reconnecting'))).toEqual(['reconnecting', 'error']);
+    });
+
+    it('ignores late server messages once the session has ended', () => {
+        const idle = INITIAL_CONVERSATION_STATE;
+        for (const event of [{ type: 'connected' }, { type: 'user-speech' }, { type: 'ai-speech' }, { type: 'closed' }] as ConversationEvent[]) {
+            expect(transitionConversation(idle, event)).toBe(idle);
+        }
+    });
+
+    it('does not start a second connection while one is in progress', () => {
+        expect(transitionConversation(at('connecting'), { type: 'connect' })).toEqual(at('connecting'));
+        expect(transitionConversation(at('listening'), { type: 'connect' })).toEqual(at('listening'));
+    });
+
+    it('hands the floor back and forth without going through listening', () => {
+        expect(phasesOf([{ type: 'ai-speech' }, { type: 'user-speech' }], at('listening'))).toEqual(['ai-speaking', 'user-speaking']);
+    });
+
+    it('returns the same state for repeated speech so callers can skip re-rendering', () => {
+        const speaking = at('user-speaking');
+        expect(transitionConversation(speaking, { type: 'user-speech' })).toBe(speaking);
+    });
+});
+
+describe('requiresTeardown', () => {
+    it.each([
+        ['connecting', 'idle', true],
+        ['connecting', 'error', true],
+        ['listening', 'idle', true],
+        ['user-speaking', 'error', true],
+        ['ai-speaking', 'idle', true],
+        ['reconnecting', 'idle', true],
+        ['reconnecting', 'error', true],
+        ['idle', 'connecting', false],
+        ['error', 'connecting', false],
+        ['error', 'idle', false],
+        ['listening', 'reconnecting', false],
+        ['reconnecting', 'listening', false],
+        ['user-speaking', 'ai-speaking', false],
+    ] as [ConversationPhase, ConversationPhase, boolean][])('%s -> %s: %s', (from, to, expected) => {
+        expect(requiresTeardown(from, to)).toBe(expected);
+    });
+});
+
+describe('phase predicates', () => {
+    const PHASES: ConversationPhase[] = ['idle', 'connecting', 'listening', 'user-speaking', 'ai-speaking', 'reconnecting', 'error'];
+
+    it('treats every phase between idle and error as live', () => {
+        expect(PHASES.filter(isLivePhase)).toEqual(['connecting', 'listening', 'user-speaking', 'ai-speaking', 'reconnecting']);
+    });
+
+    it('only counts phases with an open connection as connected', () => {
+        expect(PHASES.filter(isConnectedPhase)).toEqual(['listening', 'user-speaking', 'ai-speaking']);
+    });
+});
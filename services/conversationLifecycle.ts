@@ -0,0 +1,93 @@
+/**
+ * State machine for a live voice conversation.
+ *
+ * Every change to the live session goes through `transitionConversation`, so the
+ * app cannot end up half-connected: leaving the live phases for `idle` or `error`
+ * is the one place resources are torn down (see `requiresTeardown`). Events that do
+ * not apply in the current phase are ignored, which makes late callbacks from a
+ * closed session harmless.
+ */
+
+export type ConversationPhase =
+    | 'idle'
+    | 'connecting'
+    | 'listening'
+    | 'user-speaking'
+    | 'ai-speaking'
+    | 'reconnecting'
+    | 'error';
+
+export type ConversationEvent =
+    /** The user started a live session. */
+    | { type: 'connect' }
+    /** The transport is open and the microphone is streaming. */
+    | { type: 'connected' }
+    | { type: 'user-speech' }
+    | { type: 'ai-speech' }
+    /** The AI finished its reply, or it was cut off; either way the floor is open again. */
+    | { type: 'turn-complete' }
+    /** The connection dropped unexpectedly and a reconnect is being attempted. */
+    | { type: 'connection-lost' }
+    | { type: 'fail'; message: string }
+    /** The user ended the live session. */
+    | { type: 'disconnect' }
+    /** The transport closed on its own. */
+    | { type: 'closed' };
+
+export interface ConversationState {
+    phase: ConversationPhase;
+    /** User-facing reason for the `error` phase. */
+    error: string | null;
+}
+
+export const INITIAL_CONVERSATION_STATE: ConversationState = { phase: 'idle', error: null };
+
+const ACTIVE_PHASES: ConversationPhase[] = ['listening', 'user-speaking', 'ai-speaking'];
+
+type Transitions = Partial<Record<ConversationEvent['type'], ConversationPhase>>;
+
+const ACTIVE_TRANSITIONS: Transitions = {
+    'user-speech': 'user-speaking',
+    'ai-speech': 'ai-speaking',
+    'turn-complete': 'listening',
+    'connection-lost': 'reconnecting',
+    fail: 'error',
+    disconnect: 'idle',
+    closed: 'idle',
+};
+
+const TRANSITIONS: Record<ConversationPhase, Transitions> = {
+    idle: { connect: 'connecting' },
+    connecting: { connected: 'listening', fail: 'error', disconnect: 'idle', closed: 'idle' },
+    listening: ACTIVE_TRANSITIONS,
+    'user-speaking': ACTIVE_TRANSITIONS,
+    'ai-speaking': ACTIVE_TRANSITIONS,
+    reconnecting: { connected: 'listening', fail: 'error', disconnect: 'idle' },
+    // 'closed' is the expected echo of tearing down after a failure; the error stays up.
+    error: { connect: 'connecting', disconnect: 'idle' },
+};
+
+/**
+ * @returns The next state, or `state` itself when the event does not apply.
+ */
+export function transitionConversation(state: ConversationState, event: ConversationEvent): ConversationState {
+    const phase = TRANSITIONS[state.phase][event.type];
+    if (!phase || phase === state.phase) return state;
+    return { phase, error: event.type === 'fail' ? event.message : null };
+}
+
+/** True while a live session holds the microphone or a connection. */
+export function isLivePhase(phase: ConversationPhase): boolean {
+    return phase !== 'idle' && phase !== 'error';
+}
+
+export function isConnectedPhase(phase: ConversationPhase): boolean {
+    return ACTIVE_PHASES.includes(phase);
+}
+
+/**
+ * Whether moving between these phases must release the session's resources.
+ */
+export function requiresTeardown(from: ConversationPhase, to: ConversationPhase): boolean {
+    return isLivePhase(from) && !isLivePhase(to);
+}
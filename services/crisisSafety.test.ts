@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage } from '../types';
+import { createChatMessage } from '../utils/chatMessage';
+import { buildSafeMessagingReply, DEFAULT_CRISIS_RULES, getHelplines, screenForCrisis, withoutCrisisMessages } from './crisisSafety';
+import { BUILT_IN_PERSONAS, buildSystemPrompt, describeSessionContext } from './personas';
+import { LLMProvider } from './providers';
+import { buildResumeContext } from './reconnectingLiveSession';
+
+/** Messages each default rule must flag and must let through, in the order of `DEFAULT_CRISIS_RULES`. */
+const RULE_CASES: { flags: string[]; ignores: string[] }[] = [
+    { flags: ['I keep thinking about killing myself', 'I could kill myself'], ignores: ['That workout is killing me', 'I kill it at work'] },
+    { flags: ["I'm going to end my life", 'thinking of taking my own life'], ignores: ['This job is my life', 'I want to take my life back'] },
+    {
+        flags: ["I've been feeling suicidal lately", 'I think about suicide every day'],
+        ignores: ['We watched Suicide Squad last night', "It's suicide prevention month", "I'm not suicidal, just tired"],
+    },
+    {
+        flags: ['I just want to die', 'honestly i wanna die', "I'm ready to die", "I don't want to die alone but I want to die"],
+        ignores: ["I don't want to die", 'I do not really want to die', 'I never want to die like that', 'The battery is about to die'],
+    },
+    {
+        flags: ['I want to end it all', "I'm thinking about ending it all", "I'm going to end it all tonight"],
+        ignores: ["I don't want to end it all", 'I would never end it all', 'Let me send it all over'],
+    },
+    { flags: ["I don't want to live anymore", 'I do not want to be here'], ignores: ["I don't want to live in this city", 'I want to be here'] },
+    { flags: ["I'd be better off dead", 'there is no reason to live'], ignores: ['I am better off without coffee', 'There is no reason to leave'] },
+    { flags: ['Everyone would be better off without me'], ignores: ['Everyone would be better off without meetings'] },
+    { flags: ['I cut myself again', "I've been hurting myself"], ignores: ['I cut my hair myself', 'I hurt my knee'] },
+    { flags: ['I struggle with self-harm', 'self harming helps me cope'], ignores: ['I am learning self-defense', 'self help books'] },
+    { flags: ['I took an overdose', "I'm thinking about overdosing"], ignores: ['I overdid it at the gym', 'too much coffee'] },
+    { flags: ['My partner hits me', 'he beat me last night'], ignores: ['my partner hugs me', 'she hit the road'] },
+    { flags: ['I was abused as a child', "I've been assaulted"], ignores: ['I was amused by the show', 'I am being assessed at work'] },
+    { flags: ["I'm scared to go home", 'afraid of going home tonight'], ignores: ["I'm excited to go home", 'scared of the dark'] },
+    { flags: ['I am in a domestic violence situation', 'sexual abuse support'], ignores: ['domestic flights are delayed', 'sexual health clinic'] },
+];
+
+describe('screenForCrisis', () => {
+    it('has cases for every default rule', () => {
+        expect(RULE_CASES).toHaveLength(DEFAULT_CRISIS_RULES.length);
+    });
+
+    describe.each(DEFAULT_CRISIS_RULES.map((rule, index) => ({ rule, index, ...RULE_CASES[index] })))('rule $index ($rule.category)', ({ rule, flags, ignores }) => {
+        it.each(flags)('flags "%s"', text => {
+            expect(screenForCrisis(text, [rule])?.categories).toEqual([rule.category]);
+        });
+
+        it.each(ignores)('ignores "%s"', text => {
+            expect(screenForCrisis(text, [rule])).toBeNull();
+        });
+    });
+
+    it('reports every category and matched phrase', () => {
+        const result = screenForCrisis('He hurts me and sometimes I want to die');
+        expect(result?.categories).toEqual(['suicidal-ideation', 'abuse']);
+        expect(result?.matchedPhrases).toEqual(['want to die', 'he hurts me']);
+    });
+
+    it('normalizes case, whitespace and typographic apostrophes', () => {
+        expect(screenForCrisis('I DON’T   want to\nlive anymore')?.categories).toEqual(['suicidal-ideation']);
+    });
+
+    it('lets everyday messages through', () => {
+        expect(screenForCrisis("I had a rough day but I'm doing okay")).toBeNull();
+        expect(screenForCrisis("I don't want to die, I just need a break")).toBeNull();
+    });
+});
+
+describe('getHelplines', () => {
+    it('only lists resources for the matched categories', () => {
+        const names = getHelplines('US', ['abuse']).map(h => h.name);
+        expect(names).toContain('National Domestic Violence Hotline');
+        expect(names).not.toContain('988 Suicide & Crisis Lifeline');
+    });
+
+    it('falls back to international resources for an unknown region', () => {
+        expect(getHelplines('ZZ', ['suicidal-ideation'])).toEqual(getHelplines('INTL', ['suicidal-ideation']));
+    });
+});
+
+describe('buildSafeMessagingReply', () => {
+    it('includes the regional helplines and emergency number', () => {
+        const reply = buildSafeMessagingReply(['suicidal-ideation'], 'GB');
+        expect(reply).toContain('Samaritans: Call 116 123');
+        expect(reply).toContain('call 999');
+    });
+
+    it('acknowledges abuse differently', () => {
+        expect(buildSafeMessagingReply(['abuse'], 'US')).toContain('none of this is your fault');
+    });
+});
+
+describe('withoutCrisisMessages', () => {
+    const disclosure = 'I want to end it all';
+    const history: ChatMessage[] = [
+        createChatMessage('user', 'Hi there', 'typed'),
+        createChatMessage('ai', 'Hello! How are you?', 'typed'),
+        createChatMessage('user', disclosure, 'typed', { crisis: ['suicidal-ideation'] }),
+        createChatMessage('ai', buildSafeMessagingReply(['suicidal-ideation'], 'US'), 'typed', { crisis: ['suicidal-ideation'] }),
+        createChatMessage('user', 'Thanks, I called them', 'typed'),
+    ];
+
+    it('drops flagged messages and the safe-messaging replies sent for them', () => {
+        expect(withoutCrisisMessages(history).map(m => m.text)).toEqual(['Hi there', 'Hello! How are you?', 'Thanks, I called them']);
+    });
+
+    it('keeps a flagged message out of every provider call', async () => {
+        const calls: unknown[][] = [];
+        const provider: LLMProvider = {
+            id: 'mock',
+            label: 'Recording',
+            requiresApiKey: false,
+            streamResponse: async function* (...args) { calls.push(args); },
+            generateSpeech: async (...args) => { calls.push(args); return null; },
+            connectLive: async (...args) => { calls.push(args); throw new Error('not needed'); },
+        };
+        const modelHistory = withoutCrisisMessages(history);
+        const systemInstruction = buildSystemPrompt(BUILT_IN_PERSONAS[0], {
+            emotion: 'Sad', confidence: 0.5, userName: '', sessionContext: describeSessionContext(modelHistory),
+        });
+        for await (const _ of provider.streamResponse('How do I feel better?', 'Sad', modelHistory, systemInstruction)) { /* drain */ }
+        await provider.connectLive('Sad', 'Kore', `${systemInstruction}\n\n${buildResumeContext(history)}`, {
+            onopen: () => {}, onmessage: () => {}, onerror: () => {}, onclose: () => {},
+        }).catch(() => {});
+
+        const sent = JSON.stringify(calls);
+        expect(sent).not.toContain(disclosure);
+        expect(sent).not.toContain('988 Suicide & Crisis Lifeline');
+        // The resumed session still learns that the user may be in crisis, without the message itself.
+        expect(sent).toContain('The user may be in crisis (suicidal-ideation)');
+    });
+});
@@ -0,0 +1,173 @@
+import { ChatMessage, CrisisCategory } from '../types';
+
+/**
+ * Local screening of user messages for crisis signals.
+ *
+ * Every typed message and live transcription is checked against a rule set before
+ * the model is involved. A match replaces the model's reply with a fixed
+ * safe-messaging response and helpline resources for the user's region. Rules are
+ * plain regular expressions so they can be reviewed, extended and tested without
+ * any external service.
+ */
+
+export interface CrisisRule {
+    category: CrisisCategory;
+    pattern: RegExp;
+    /**
+     * Ignore matches directly preceded by a negation, as in "I don't want to die".
+     * Left off for explicit self-harm phrases, where a false alarm is the safer mistake.
+     */
+    negatable?: boolean;
+}
+
+export interface CrisisScreenResult {
+    categories: CrisisCategory[];
+    matchedPhrases: string[];
+}
+
+export interface Helpline {
+    name: string;
+    contact: string;
+    url?: string;
+    /** Limits the resource to these categories; shown for all when omitted. */
+    categories?: CrisisCategory[];
+}
+
+export interface HelplineRegion {
+    label: string;
+    emergencyNumber: string;
+    resources: Helpline[];
+}
+
+export const DEFAULT_CRISIS_RULES: CrisisRule[] = [
+    { category: 'suicidal-ideation', pattern: /\b(kill|killing)\s+myself\b/ },
+    { category: 'suicidal-ideation', pattern: /\b(end|ending|take|taking)\s+my\s+(own\s+)?life\b(?!\s+back\b)/ },
+    // Mentions of films, campaigns and statistics are not about the user.
+    { category: 'suicidal-ideation', pattern: /\bsuicid(e|al)\b(?!\s+(squad|prevention|awareness|bombers?|bombings?|rates?|statistics)\b)/, negatable: true },
+    { category: 'suicidal-ideation', pattern: /\b(want|wanna|ready)\s+(to\s+)?die\b/, negatable: true },
+    { category: 'suicidal-ideation', pattern: /\b((want|wanna|going|ready)\s+(to\s+)?)?(end|ending)\s+it\s+all\b/, negatable: true },
+    // "Live in this city" and "be here with you" are about a place or person, not living.
+    { category: 'suicidal-ideation', pattern: /\b(don'?t|do not)\s+want\s+to\s+(live|be alive|be here)( anymore)?\b(?!\s+(in|with|at|near|on|like)\b)/ },
+    { category: 'suicidal-ideation', pattern: /\b(better off dead|no reason to live|not worth living)\b/ },
+    { category: 'suicidal-ideation', pattern: /\beveryone would be better off without me\b/ },
+    { category: 'self-harm', pattern: /\b(cut|cutting|burn|burning|hurt|hurting|harm|harming)\s+myself\b/ },
+    { category: 'self-harm', pattern: /\bself[-\s]?harm(ing)?\b/ },
+    { category: 'self-harm', pattern: /\b(overdose|overdosing|od'?ing)\b/ },
+    { category: 'abuse', pattern: /\b(he|she|they|my (partner|husband|wife|boyfriend|girlfriend|dad|father|mom|mother|parent))\s+(hits|hit|beats|beat|chokes|choked|hurts|hurt|abuses|abused)\s+me\b/ },
+    { category: 'abuse', pattern: /\b(being|been|was|am)\s+(abused|assaulted|raped|molested)\b/ },
+    { category: 'abuse', pattern: /\b(afraid|scared)\s+(to go|of going)\s+home\b/ },
+    { category: 'abuse', pattern: /\b(domestic|sexual)\s+(violence|abuse)\b/ },
+];
+
+export const HELPLINE_REGIONS: Record<string, HelplineRegion> = {
+    US: {
+        label: 'United States',
+        emergencyNumber: '911',
+        resources: [
+            { name: '988 Suicide & Crisis Lifeline', contact: 'Call or text 988', url: 'https://988lifeline.org', categories: ['suicidal-ideation', 'self-harm'] },
+            { name: 'Crisis Text Line', contact: 'Text HOME to 741741', url: 'https://www.crisistextline.org' },
+            { name: 'National Domestic Violence Hotline', contact: 'Call 1-800-799-7233 or text START to 88788', url: 'https://www.thehotline.org', categories: ['abuse'] },
+        ],
+    },
+    GB: {
+        label: 'United Kingdom',
+        emergencyNumber: '999',
+        resources: [
+            { name: 'Samaritans', contact: 'Call 116 123', url: 'https://www.samaritans.org' },
+            { name: 'Shout', contact: 'Text SHOUT to 85258', url: 'https://giveusashout.org' },
+            { name: 'National Domestic Abuse Helpline', contact: 'Call 0808 2000 247', url: 'https://www.nationaldahelpline.org.uk', categories: ['abuse'] },
+        ],
+    },
+    CA: {
+        label: 'Canada',
+        emergencyNumber: '911',
+        resources: [
+            { name: '9-8-8 Suicide Crisis Helpline', contact: 'Call or text 988', url: 'https://988.ca', categories: ['suicidal-ideation', 'self-harm'] },
+            { name: 'Kids Help Phone', contact: 'Call 1-800-668-6868 or text CONNECT to 686868', url: 'https://kidshelpphone.ca' },
+        ],
+    },
+    AU: {
+        label: 'Australia',
+        emergencyNumber: '000',
+        resources: [
+            { name: 'Lifeline', contact: 'Call 13 11 14 or text 0477 13 11 14', url: 'https://www.lifeline.org.au' },
+            { name: '1800RESPECT', contact: 'Call 1800 737 732', url: 'https://www.1800respect.org.au', categories: ['abuse'] },
+        ],
+    },
+    INTL: {
+        label: 'Other country',
+        emergencyNumber: 'your local emergency number',
+        resources: [
+            { name: 'Find a Helpline', contact: 'Free, confidential support lines worldwide', url: 'https://findahelpline.com' },
+        ],
+    },
+};
+
+const REGION_STORAGE_KEY = 'helpline-region';
+
+// Typographic apostrophes from mobile keyboards and speech transcription.
+const normalizeText = (text: string) => text.toLowerCase().replace(/[’‘`]/g, "'").replace(/\s+/g, ' ');
+
+// A negation right before the match, allowing one word between: "don't really want to die", "not feeling suicidal".
+const NEGATION_BEFORE = /\b(don'?t|do not|doesn'?t|does not|didn'?t|did not|never|not|no longer)\s+((really|ever|actually|feel|feeling)\s+)?$/;
+
+/**
+ * Checks a message for crisis signals.
+ * @returns The matched categories and phrases, or null when nothing matched.
+ */
+export function screenForCrisis(text: string, rules: CrisisRule[] = DEFAULT_CRISIS_RULES): CrisisScreenResult | null {
+    const normalized = normalizeText(text);
+    const categories = new Set<CrisisCategory>();
+    const matchedPhrases: string[] = [];
+    for (const rule of rules) {
+        const pattern = new RegExp(rule.pattern.source, rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`);
+        // Every occurrence is checked, so one negated phrase does not hide a later, sincere one.
+        const match = [...normalized.matchAll(pattern)]
+            .find(m => !(rule.negatable && NEGATION_BEFORE.test(normalized.slice(0, m.index))));
+        if (match) {
+            categories.add(rule.category);
+            matchedPhrases.push(match[0]);
+        }
+    }
+    return categories.size ? { categories: [...categories], matchedPhrases } : null;
+}
+
+/**
+ * The conversation as the model may see it: flagged user messages and the
+ * safe-messaging replies sent in their place are left out, so a disclosure is
+ * never replayed to the model as history.
+ */
+export function withoutCrisisMessages(history: ChatMessage[]): ChatMessage[] {
+    return history.filter(m => !m.crisis?.length);
+}
+
+export function getHelplineRegion(): string {
+    const stored = localStorage.getItem(REGION_STORAGE_KEY);
+    if (stored && HELPLINE_REGIONS[stored]) return stored;
+    const localeRegion = navigator.language.split('-')[1]?.toUpperCase();
+    return localeRegion && HELPLINE_REGIONS[localeRegion] ? localeRegion : 'INTL';
+}
+
+export function setHelplineRegion(region: string) {
+    localStorage.setItem(REGION_STORAGE_KEY, region);
+}
+
+export function getHelplines(region: string, categories: CrisisCategory[]): Helpline[] {
+    const { resources } = HELPLINE_REGIONS[region] ?? HELPLINE_REGIONS.INTL;
+    return resources.filter(resource => !resource.categories || resource.categories.some(c => categories.includes(c)));
+}
+
+/**
+ * The reply used instead of the model's when a message is flagged. Follows safe
+ * messaging practice: acknowledge, do not judge or debate, point to immediate help.
+ */
+export function buildSafeMessagingReply(categories: CrisisCategory[], region: string): string {
+    const { emergencyNumber } = HELPLINE_REGIONS[region] ?? HELPLINE_REGIONS.INTL;
+    const opening = categories.includes('abuse')
+        ? "I'm really sorry this is happening to you. You deserve to be safe, and none of this is your fault."
+        : "I'm really glad you told me, and I'm sorry you're in so much pain right now. You don't have to go through this alone.";
+    const resources = getHelplines(region, categories).map(h => `${h.name}: ${h.contact}`).join('. ');
+    return `${opening} I'm not able to give you the support you deserve right now, but people trained to help are available at any time. `
+        + `${resources}. If you are in immediate danger, please call ${emergencyNumber}. `
+        + "If you can, reach out to someone you trust and let them know how you're feeling.";
+}
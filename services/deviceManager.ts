@@ -0,0 +1,100 @@
+/**
+ * Camera, microphone and speaker selection.
+ *
+ * Preferences are remembered by device ID. A preferred device that is no longer
+ * plugged in is not an error: the browser default is used instead and the caller is
+ * told, so it can let the user know and keep the session running.
+ */
+
+export type DeviceKind = 'videoinput' | 'audioinput' | 'audiooutput';
+
+export interface MediaDeviceOption {
+    deviceId: string;
+    label: string;
+}
+
+export type DeviceLists = Record<DeviceKind, MediaDeviceOption[]>;
+
+/** Chosen device ID per kind; missing means the browser default. */
+export type DevicePreferences = Partial<Record<DeviceKind, string>>;
+
+export const DEVICE_KIND_LABELS: Record<DeviceKind, string> = {
+    videoinput: 'Camera',
+    audioinput: 'Microphone',
+    audiooutput: 'Speaker',
+};
+
+export const EMPTY_DEVICE_LISTS: DeviceLists = { videoinput: [], audioinput: [], audiooutput: [] };
+
+const PREFERENCES_STORAGE_KEY = 'media-devices';
+
+export function getDevicePreferences(): DevicePreferences {
+    try {
+        return JSON.parse(localStorage.getItem(PREFERENCES_STORAGE_KEY) ?? '{}');
+    } catch {
+        return {};
+    }
+}
+
+export function saveDevicePreferences(preferences: DevicePreferences) {
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+}
+
+export async function listMediaDevices(): Promise<DeviceLists> {
+    const lists: DeviceLists = { videoinput: [], audioinput: [], audiooutput: [] };
+    if (!navigator.mediaDevices?.enumerateDevices) return lists;
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    for (const device of devices) {
+        // The 'default' and 'communications' entries duplicate a real device; the empty choice covers them.
+        if (device.deviceId === 'default' || device.deviceId === 'communications' || !device.deviceId) continue;
+        const list = lists[device.kind as DeviceKind];
+        // Labels stay empty until the user has granted access.
+        list.push({ deviceId: device.deviceId, label: device.label || `${DEVICE_KIND_LABELS[device.kind as DeviceKind]} ${list.length + 1}` });
+    }
+    return lists;
+}
+
+export interface AcquiredStream {
+    stream: MediaStream;
+    /** True when the preferred device could not be opened and the default was used. */
+    usedFallback: boolean;
+}
+
+// Keeps the assistant's own voice from the speakers out of the microphone, so it is not mistaken for the user.
+const MICROPHONE_PROCESSING: MediaTrackConstraints = { echoCancellation: true, noiseSuppression: true };
+
+/**
+ * Opens a single camera or microphone, falling back to the default device when
+ * the preferred one is missing. Microphones are opened with echo cancellation
+ * and noise suppression.
+ */
+export async function openInputDevice(kind: 'videoinput' | 'audioinput', deviceId?: string): Promise<AcquiredStream> {
+    const key = kind === 'videoinput' ? 'video' : 'audio';
+    const processing = kind === 'audioinput' ? MICROPHONE_PROCESSING : {};
+    if (deviceId) {
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ [key]: { ...processing, deviceId: { exact: deviceId } } });
+            return { stream, usedFallback: false };
+        } catch (err) {
+            const name = err instanceof DOMException ? err.name : '';
+            if (name !== 'OverconstrainedError' && name !== 'NotFoundError') throw err;
+        }
+    }
+    const stream = await navigator.mediaDevices.getUserMedia({ [key]: kind === 'audioinput' ? processing : true });
+    return { stream, usedFallback: !!deviceId };
+}
+
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+export function supportsOutputSelection(): boolean {
+    return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+}
+
+/**
+ * Routes an audio context to a speaker; an empty or missing ID means the default output.
+ */
+export async function setAudioOutputDevice(ctx: AudioContext, deviceId?: string): Promise<void> {
+    const sinkable = ctx as SinkableAudioContext;
+    if (!sinkable.setSinkId || ctx.state === 'closed') return;
+    await sinkable.setSinkId(deviceId ?? '');
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { EmotionScores } from '../types';
+import { createEmptyScores } from '../utils/emotionScores';
+import { createEmotionFusion, DEFAULT_FUSION_CONFIG, faceExpressionsToScores, fuseDistributions } from './emotionFusion';
+
+const only = (emotion: keyof EmotionScores): EmotionScores => ({ ...createEmptyScores(), [emotion]: 1 });
+
+describe('fuseDistributions', () => {
+    it('returns a zero-confidence Neutral result without evidence', () => {
+        const result = fuseDistributions([]);
+        expect(result.emotion).toBe('Neutral');
+        expect(result.confidence).toBe(0);
+    });
+
+    it('weights each distribution by its confidence', () => {
+        const result = fuseDistributions([
+            { scores: only('Angry'), weight: 0.2 },
+            { scores: only('Happy'), weight: 0.8 },
+        ]);
+        expect(result.emotion).toBe('Happy');
+        expect(result.scores.Happy).toBeCloseTo(0.8);
+        expect(result.scores.Angry).toBeCloseTo(0.2);
+    });
+
+    it('ignores negative weights', () => {
+        const result = fuseDistributions([
+            { scores: only('Angry'), weight: -5 },
+            { scores: only('Sad'), weight: 1 },
+        ]);
+        expect(result.emotion).toBe('Sad');
+        expect(result.scores.Angry).toBe(0);
+    });
+
+    it('scales confidence down when there is little evidence', () => {
+        const weak = fuseDistributions([{ scores: only('Happy'), weight: 0.25 }], 1);
+        const strong = fuseDistributions([{ scores: only('Happy'), weight: 2 }], 1);
+        expect(weak.confidence).toBeCloseTo(0.25);
+        expect(strong.confidence).toBeCloseTo(1);
+    });
+
+    it('counts Calm towards Neutral', () => {
+        const result = fuseDistributions([
+            { scores: { ...createEmptyScores(), Calm: 0.3, Neutral: 0.3, Happy: 0.4 }, weight: 1 },
+        ]);
+        expect(result.emotion).toBe('Neutral');
+        expect(result.confidence).toBeCloseTo(0.6);
+    });
+});
+
+describe('createEmotionFusion', () => {
+    it('lets a confident observation outweigh an unreliable one', () => {
+        const fusion = createEmotionFusion();
+        fusion.addObservation('face', only('Angry'), 0, 0.1);
+        fusion.addObservation('face', only('Happy'), 0, 0.9);
+        expect(fusion.fuse(0).emotion).toBe('Happy');
+    });
+
+    it('decays older observations by the half-life', () => {
+        const fusion = createEmotionFusion();
+        const halfLife = DEFAULT_FUSION_CONFIG.halfLifeMs.face;
+        fusion.addObservation('face', only('Sad'), 0);
+        fusion.addObservation('face', only('Happy'), halfLife);
+        const result = fusion.fuse(halfLife);
+        // The Sad frame is one half-life old, so it counts half as much.
+        expect(result.modalities.face?.Happy).toBeCloseTo(2 / 3);
+        expect(result.modalities.face?.Sad).toBeCloseTo(1 / 3);
+    });
+
+    it('drops observations once they leave the window', () => {
+        const fusion = createEmotionFusion();
+        const windowMs = DEFAULT_FUSION_CONFIG.windowMs.face;
+        fusion.addObservation('face', only('Angry'), 0);
+        expect(fusion.fuse(windowMs).modalities.face).toBeDefined();
+        const expired = fusion.fuse(windowMs + 1);
+        expect(expired.modalities.face).toBeUndefined();
+        expect(expired.confidence).toBe(0);
+    });
+
+    it('keeps text evidence longer than face evidence', () => {
+        const fusion = createEmotionFusion();
+        fusion.addObservation('face', only('Angry'), 0);
+        fusion.addObservation('text', only('Sad'), 0);
+        const result = fusion.fuse(DEFAULT_FUSION_CONFIG.windowMs.face + 1000);
+        expect(Object.keys(result.modalities)).toEqual(['text']);
+        expect(result.emotion).toBe('Sad');
+    });
+
+    it('renormalizes over the modalities that are present', () => {
+        const fusion = createEmotionFusion();
+        fusion.addObservation('voice', only('Sad'), 0);
+        const result = fusion.fuse(0);
+        expect(result.scores.Sad).toBeCloseTo(1);
+        expect(Object.values(result.scores).reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+        // Voice alone carries its modality weight as evidence.
+        expect(result.confidence).toBeCloseTo(DEFAULT_FUSION_CONFIG.weights.voice);
+    });
+
+    it('combines modalities by their weights', () => {
+        const fusion = createEmotionFusion();
+        fusion.addObservation('face', only('Happy'), 0);
+        fusion.addObservation('voice', only('Sad'), 0);
+        const { weights } = DEFAULT_FUSION_CONFIG;
+        const result = fusion.fuse(0);
+        expect(result.emotion).toBe('Happy');
+        expect(result.scores.Happy).toBeCloseTo(weights.face / (weights.face + weights.voice));
+    });
+
+    it('does not let a frequent modality outvote an infrequent one', () => {
+        const fusion = createEmotionFusion();
+        for (let i = 0; i < 10; i++) fusion.addObservation('face', only('Angry'), 0);
+        fusion.addObservation('text', only('Happy'), 0);
+        const result = fusion.fuse(0);
+        const { weights } = DEFAULT_FUSION_CONFIG;
+        expect(result.scores.Angry).toBeCloseTo(weights.face / (weights.face + weights.text));
+    });
+
+    it('replaces an observation that has the same key', () => {
+        const fusion = createEmotionFusion();
+        fusion.addObservation('text', only('Sad'), 0, 1, 'turn-1');
+        fusion.addObservation('text', only('Angry'), 0, 1, 'turn-1');
+        fusion.addObservation('text', only('Happy'), 0, 1, 'turn-2');
+        const text = fusion.fuse(0).modalities.text;
+        expect(text?.Sad).toBe(0);
+        expect(text?.Angry).toBeCloseTo(0.5);
+        expect(text?.Happy).toBeCloseTo(0.5);
+    });
+
+    it('clears a single modality or everything', () => {
+        const fusion = createEmotionFusion();
+        fusion.addObservation('face', only('Angry'), 0);
+        fusion.addObservation('text', only('Happy'), 0);
+        fusion.clear('face');
+        expect(Object.keys(fusion.fuse(0).modalities)).toEqual(['text']);
+        fusion.clear();
+        expect(fusion.fuse(0).modalities).toEqual({});
+    });
+});
+
+describe('faceExpressionsToScores', () => {
+    it('maps face-api expressions onto the app emotions', () => {
+        const scores = faceExpressionsToScores({ happy: 0.5, neutral: 0.5 });
+        expect(scores.Happy).toBeCloseTo(0.5);
+        expect(scores.Neutral).toBeCloseTo(0.5);
+        expect(scores.Calm).toBe(0);
+    });
+
+    it('folds disgust into Angry', () => {
+        const scores = faceExpressionsToScores({ angry: 0.25, disgusted: 0.25, neutral: 0.5 });
+        expect(scores.Angry).toBeCloseTo(0.5);
+    });
+
+    it('splits fear between Sad and Surprised', () => {
+        const scores = faceExpressionsToScores({ fearful: 1 });
+        expect(scores.Sad).toBeCloseTo(0.5);
+        expect(scores.Surprised).toBeCloseTo(0.5);
+    });
+
+    it('treats missing expressions as zero and an empty reading as Neutral', () => {
+        expect(faceExpressionsToScores({ sad: 2 }).Sad).toBeCloseTo(1);
+        expect(faceExpressionsToScores({}).Neutral).toBe(1);
+    });
+});
@@ -0,0 +1,143 @@
+import { Emotion, EmotionModality, EmotionScores, FusedEmotion, FusionResult } from '../types';
+import { createEmptyScores, dominantEmotion, EMOTIONS, normalizeScores } from '../utils/emotionScores';
+
+/**
+ * Confidence-weighted late fusion of per-modality emotion distributions.
+ *
+ * Each modality reports probability distributions over time. Within a modality,
+ * observations are averaged with weights from their own reliability and an
+ * exponential decay by age, so a single outlier frame only nudges the result. The
+ * per-modality averages are then combined using the modality weights, scaled by how
+ * much recent evidence each modality has; a modality that reports ten times a second
+ * does not outvote one that reports once.
+ */
+
+export interface FusionConfig {
+    /** Relative trust in each modality. */
+    weights: Record<EmotionModality, number>;
+    /** Observations older than this are discarded. */
+    windowMs: Record<EmotionModality, number>;
+    /** Age at which an observation counts half as much as a fresh one. */
+    halfLifeMs: Record<EmotionModality, number>;
+    /** Combined modality weight at which confidence is no longer scaled down for lack of evidence. */
+    fullEvidenceWeight: number;
+}
+
+export const DEFAULT_FUSION_CONFIG: FusionConfig = {
+    weights: { face: 1.0, voice: 0.7, text: 0.8 },
+    // A typed message stays relevant far longer than a single video frame.
+    windowMs: { face: 4000, voice: 6000, text: 60000 },
+    halfLifeMs: { face: 1500, voice: 2500, text: 20000 },
+    fullEvidenceWeight: 1,
+};
+
+export interface WeightedDistribution {
+    scores: EmotionScores;
+    weight: number;
+}
+
+interface Observation {
+    modality: EmotionModality;
+    scores: EmotionScores;
+    reliability: number;
+    timestamp: number;
+    key?: string;
+}
+
+export interface EmotionFusion {
+    /**
+     * Records a distribution from one modality.
+     * @param reliability 0..1 trust in this particular observation (e.g. face detection score).
+     * @param key Replaces the earlier observation with the same key, e.g. while a transcript is still growing.
+     */
+    addObservation: (modality: EmotionModality, scores: EmotionScores, timestamp: number, reliability?: number, key?: string) => void;
+    fuse: (now: number) => FusionResult;
+    /** Drops observations from one modality, or from all of them when none is given. */
+    clear: (modality?: EmotionModality) => void;
+}
+
+// FusedEmotion has no Calm class; calm evidence supports a Neutral reading.
+const toFusedEmotion = (emotion: Emotion): FusedEmotion => emotion === 'Calm' ? 'Neutral' : emotion;
+
+export type FaceExpressionName = 'neutral' | 'happy' | 'sad' | 'angry' | 'fearful' | 'disgusted' | 'surprised';
+
+/**
+ * Maps face-api.js `expressions` probabilities onto the app's emotion classes.
+ */
+export function faceExpressionsToScores(expressions: Partial<Record<FaceExpressionName, number>>): EmotionScores {
+    const scores = createEmptyScores();
+    scores.Happy = expressions.happy ?? 0;
+    scores.Sad = (expressions.sad ?? 0) + 0.5 * (expressions.fearful ?? 0);
+    scores.Angry = (expressions.angry ?? 0) + (expressions.disgusted ?? 0);
+    scores.Surprised = (expressions.surprised ?? 0) + 0.5 * (expressions.fearful ?? 0);
+    scores.Neutral = expressions.neutral ?? 0;
+    return normalizeScores(scores);
+}
+
+/**
+ * Combines weighted distributions into a fused result.
+ * @param inputs Distributions with their effective (already decayed) weights.
+ * @param fullEvidenceWeight Total weight needed before confidence is no longer scaled down (0 disables scaling).
+ */
+export function fuseDistributions(inputs: WeightedDistribution[], fullEvidenceWeight = DEFAULT_FUSION_CONFIG.fullEvidenceWeight): FusionResult {
+    const totalWeight = inputs.reduce((sum, input) => sum + Math.max(0, input.weight), 0);
+    if (totalWeight <= 0) {
+        return { emotion: 'Neutral', confidence: 0, scores: normalizeScores(createEmptyScores()), modalities: {} };
+    }
+
+    const combined = createEmptyScores();
+    for (const input of inputs) {
+        const weight = Math.max(0, input.weight);
+        for (const emotion of EMOTIONS) {
+            combined[emotion] += input.scores[emotion] * weight;
+        }
+    }
+    const scores = normalizeScores(combined);
+
+    // Collapse Calm into Neutral before choosing, so the two do not split the vote.
+    const collapsed = { ...scores, Neutral: scores.Neutral + scores.Calm, Calm: 0 };
+    const top = dominantEmotion(collapsed);
+    const evidence = fullEvidenceWeight > 0 ? Math.min(1, totalWeight / fullEvidenceWeight) : 1;
+
+    return {
+        emotion: toFusedEmotion(top.emotion),
+        confidence: top.score * evidence,
+        scores,
+        modalities: {},
+    };
+}
+
+export function createEmotionFusion(config: FusionConfig = DEFAULT_FUSION_CONFIG): EmotionFusion {
+    let observations: Observation[] = [];
+
+    const addObservation = (modality: EmotionModality, scores: EmotionScores, timestamp: number, reliability = 1, key?: string) => {
+        if (key !== undefined) observations = observations.filter(o => o.key !== key);
+        observations.push({ modality, scores: normalizeScores(scores), reliability, timestamp, key });
+    };
+
+    const fuse = (now: number): FusionResult => {
+        observations = observations.filter(o => now - o.timestamp <= config.windowMs[o.modality]);
+
+        const inputs: WeightedDistribution[] = [];
+        const modalities: FusionResult['modalities'] = {};
+        for (const modality of Object.keys(config.weights) as EmotionModality[]) {
+            const own = observations.filter(o => o.modality === modality);
+            if (own.length === 0) continue;
+            const modalityInputs = own.map(o => ({
+                scores: o.scores,
+                weight: o.reliability * Math.pow(0.5, Math.max(0, now - o.timestamp) / config.halfLifeMs[modality]),
+            }));
+            const evidence = Math.min(1, modalityInputs.reduce((sum, input) => sum + input.weight, 0));
+            const average = fuseDistributions(modalityInputs, 0);
+            modalities[modality] = average.scores;
+            inputs.push({ scores: average.scores, weight: config.weights[modality] * evidence });
+        }
+        return { ...fuseDistributions(inputs, config.fullEvidenceWeight), modalities };
+    };
+
+    const clear = (modality?: EmotionModality) => {
+        observations = modality ? observations.filter(o => o.modality !== modality) : [];
+    };
+
+    return { addObservation, fuse, clear };
+}
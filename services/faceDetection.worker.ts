@@ -0,0 +1,91 @@
+import * as faceapi from '@vladmandic/face-api';
+import type { FaceExpressionName } from './emotionFusion';
+import type { FaceDetectorVariant, ModelLoadProgress } from './faceDetectors';
+import { createDetectorOptions, loadFaceModels } from './faceModelManager';
+
+/**
+ * Face detection and expression inference off the main thread. Frames arrive as
+ * transferred ImageBitmaps and are converted straight to tensors, so no DOM is needed.
+ */
+
+export interface DetectedFace {
+    /** Bounding box as fractions of the frame size. */
+    box: { x: number; y: number; width: number; height: number };
+    score: number;
+    expressions: Record<FaceExpressionName, number>;
+}
+
+export type FaceWorkerRequest =
+    | { type: 'load'; id: number; variant: FaceDetectorVariant; modelBaseUrl: string }
+    | { type: 'detect'; id: number; frame: ImageBitmap; allFaces: boolean };
+
+export type FaceWorkerResponse =
+    | { type: 'progress'; id: number; progress: ModelLoadProgress }
+    | { type: 'loaded'; id: number }
+    | { type: 'result'; id: number; faces: DetectedFace[]; inferenceMs: number }
+    | { type: 'error'; id: number; message: string };
+
+const EXPRESSION_NAMES: FaceExpressionName[] = ['neutral', 'happy', 'sad', 'angry', 'fearful', 'disgusted', 'surprised'];
+
+// face-api only recognizes browser and Node environments. A worker is neither, so give
+// it OffscreenCanvas-backed stand-ins; inference itself runs on tensors. The environment
+// is typed with DOM element classes, which only exist here as these offscreen equivalents.
+class UnavailableElement {}
+
+const workerEnvironment: faceapi.Environment = {
+    Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+    CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D as unknown as typeof CanvasRenderingContext2D,
+    Image: UnavailableElement as unknown as typeof HTMLImageElement,
+    ImageData,
+    Video: UnavailableElement as unknown as typeof HTMLVideoElement,
+    createCanvasElement: () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+    createImageElement: () => { throw new Error('Images are not available in the face detection worker'); },
+    createVideoElement: () => { throw new Error('Video is not available in the face detection worker'); },
+    fetch: (url, init) => fetch(url, init),
+    readFile: () => { throw new Error('readFile is not available in the face detection worker'); },
+};
+
+faceapi.env.setEnv(workerEnvironment);
+
+let variant: FaceDetectorVariant = 'tiny';
+
+const respond = (message: FaceWorkerResponse) => self.postMessage(message);
+
+const detect = async (frame: ImageBitmap, allFaces: boolean): Promise<DetectedFace[]> => {
+    const input = faceapi.tf.browser.fromPixels(frame);
+    try {
+        const options = createDetectorOptions(variant);
+        const detections = allFaces
+            ? await faceapi.detectAllFaces(input, options).withFaceExpressions()
+            : [await faceapi.detectSingleFace(input, options).withFaceExpressions()].filter(Boolean);
+        return detections.map(detection => {
+            const { x, y, width, height } = detection.detection.box;
+            const expressions = Object.fromEntries(EXPRESSION_NAMES.map(name => [name, detection.expressions[name] ?? 0])) as Record<FaceExpressionName, number>;
+            return {
+                box: { x: x / frame.width, y: y / frame.height, width: width / frame.width, height: height / frame.height },
+                score: detection.detection.score,
+                expressions,
+            };
+        });
+    } finally {
+        input.dispose();
+        frame.close();
+    }
+};
+
+self.onmessage = async (event: MessageEvent<FaceWorkerRequest>) => {
+    const request = event.data;
+    try {
+        if (request.type === 'load') {
+            await loadFaceModels(request.variant, request.modelBaseUrl, progress => respond({ type: 'progress', id: request.id, progress }));
+            variant = request.variant;
+            respond({ type: 'loaded', id: request.id });
+        } else {
+            const startedAt = performance.now();
+            const faces = await detect(request.frame, request.allFaces);
+            respond({ type: 'result', id: request.id, faces, inferenceMs: performance.now() - startedAt });
+        }
+    } catch (err) {
+        respond({ type: 'error', id: request.id, message: err instanceof Error ? err.message : String(err) });
+    }
+};
@@ -0,0 +1,119 @@
+import type { DetectedFace, FaceWorkerRequest, FaceWorkerResponse } from './faceDetection.worker';
+import { FaceDetectorVariant, ModelLoadProgress } from './faceDetectors';
+
+export type { DetectedFace } from './faceDetection.worker';
+
+/**
+ * Main-thread side of the face detection worker.
+ *
+ * The detection loop keeps at most one frame in flight: the next frame is captured
+ * only once the previous result is back, so a slow device skips frames instead of
+ * queueing them. The capture interval follows the measured inference time.
+ */
+
+// Frames are downscaled before transfer; the detectors work at 320-416 px anyway.
+const FRAME_WIDTH = 480;
+const MIN_INTERVAL_MS = 100;
+const MAX_INTERVAL_MS = 1000;
+// Target share of wall time spent in inference, leaving the GPU free for rendering.
+const TARGET_BUSY_FRACTION = 0.5;
+const INFERENCE_SMOOTHING = 0.2;
+
+type Distribute<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+interface PendingRequest {
+    resolve: (response: FaceWorkerResponse) => void;
+    reject: (error: Error) => void;
+    onProgress?: (progress: ModelLoadProgress) => void;
+}
+
+export type FaceDetectionClient = ReturnType<typeof createFaceDetectionClient>;
+
+export function createFaceDetectionClient() {
+    const worker = new Worker(new URL('./faceDetection.worker.ts', import.meta.url), { type: 'module' });
+    const pending = new Map<number, PendingRequest>();
+    let nextId = 0;
+
+    const rejectAll = (error: Error) => {
+        pending.forEach(request => request.reject(error));
+        pending.clear();
+    };
+
+    worker.onmessage = (event: MessageEvent<FaceWorkerResponse>) => {
+        const response = event.data;
+        const request = pending.get(response.id);
+        if (!request) return;
+        if (response.type === 'progress') {
+            request.onProgress?.(response.progress);
+            return;
+        }
+        pending.delete(response.id);
+        if (response.type === 'error') request.reject(new Error(response.message));
+        else request.resolve(response);
+    };
+    worker.onerror = (event) => rejectAll(new Error(event.message || 'Face detection worker failed'));
+
+    const send = (message: Distribute<FaceWorkerRequest>, transfer: Transferable[] = [], onProgress?: PendingRequest['onProgress']) =>
+        new Promise<FaceWorkerResponse>((resolve, reject) => {
+            const id = nextId++;
+            pending.set(id, { resolve, reject, onProgress });
+            worker.postMessage({ ...message, id }, transfer);
+        });
+
+    const load = async (variant: FaceDetectorVariant, onProgress?: (progress: ModelLoadProgress) => void) => {
+        const modelBaseUrl = new URL('models/', document.baseURI).href;
+        await send({ type: 'load', variant, modelBaseUrl }, [], onProgress);
+    };
+
+    const detect = async (frame: ImageBitmap, allFaces: boolean) => {
+        const response = await send({ type: 'detect', frame, allFaces }, [frame]);
+        return response.type === 'result' ? response : { faces: [], inferenceMs: 0 };
+    };
+
+    /**
+     * Runs detection on `video` until the returned function is called.
+     * @param onResult Receives the faces found in each processed frame.
+     * @param allFaces Detect every face rather than only the most confident one.
+     */
+    const startLoop = (video: HTMLVideoElement, onResult: (faces: DetectedFace[], timestamp: number) => void, allFaces = false) => {
+        let isRunning = true;
+        let timer: number | null = null;
+        let averageInferenceMs: number | null = null;
+
+        const tick = async () => {
+            const startedAt = performance.now();
+            if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && !video.paused && !video.ended && video.videoWidth > 0) {
+                try {
+                    const frame = await createImageBitmap(video, {
+                        resizeWidth: FRAME_WIDTH,
+                        resizeHeight: Math.round((video.videoHeight * FRAME_WIDTH) / video.videoWidth),
+                        resizeQuality: 'low',
+                    });
+                    const { faces, inferenceMs } = await detect(frame, allFaces);
+                    averageInferenceMs = averageInferenceMs === null
+                        ? inferenceMs
+                        : averageInferenceMs + (inferenceMs - averageInferenceMs) * INFERENCE_SMOOTHING;
+                    if (isRunning) onResult(faces, Date.now());
+                } catch (err) {
+                    console.error("Face detection failed:", err);
+                }
+            }
+            if (!isRunning) return;
+            const intervalMs = Math.min(MAX_INTERVAL_MS, Math.max(MIN_INTERVAL_MS, (averageInferenceMs ?? 0) / TARGET_BUSY_FRACTION));
+            timer = window.setTimeout(tick, Math.max(0, intervalMs - (performance.now() - startedAt)));
+        };
+        tick();
+
+        return () => {
+            isRunning = false;
+            if (timer !== null) clearTimeout(timer);
+        };
+    };
+
+    const terminate = () => {
+        worker.terminate();
+        rejectAll(new Error('Face detection worker terminated'));
+    };
+
+    return { load, startLoop, terminate };
+}
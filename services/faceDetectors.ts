@@ -0,0 +1,34 @@
+/**
+ * Face detector variants and the user's choice between them. Kept free of face-api
+ * imports so the UI can use it without pulling TensorFlow.js into the main bundle.
+ */
+
+export type FaceDetectorVariant = 'tiny' | 'ssd';
+
+export interface ModelLoadProgress {
+    loadedBytes: number;
+    /** Null until every file has reported its size. */
+    totalBytes: number | null;
+}
+
+export const FACE_DETECTORS: Record<FaceDetectorVariant, { label: string; description: string }> = {
+    tiny: {
+        label: 'Fast',
+        description: 'Tiny face detector: small download, runs smoothly on most devices.',
+    },
+    ssd: {
+        label: 'Accurate',
+        description: 'SSD MobileNet: better with small or angled faces, about 5 MB and slower.',
+    },
+};
+
+const DETECTOR_STORAGE_KEY = 'face-detector';
+
+export function getPreferredDetector(): FaceDetectorVariant {
+    const stored = localStorage.getItem(DETECTOR_STORAGE_KEY);
+    return stored === 'ssd' || stored === 'tiny' ? stored : 'tiny';
+}
+
+export function setPreferredDetector(variant: FaceDetectorVariant) {
+    localStorage.setItem(DETECTOR_STORAGE_KEY, variant);
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { selectPrimaryFace, TrackedFace } from './faceIdentityTracker';
+
+const face = (id: number, size: number, isVisible = true): TrackedFace => ({
+    id,
+    box: { x: 0, y: 0, width: size, height: size },
+    score: 0.9,
+    expressions: { neutral: 1, happy: 0, sad: 0, angry: 0, fearful: 0, disgusted: 0, surprised: 0 },
+    lastSeen: 0,
+    isVisible,
+});
+
+describe('selectPrimaryFace', () => {
+    it('picks the largest visible face when nobody is pinned', () => {
+        expect(selectPrimaryFace([face(1, 0.2), face(2, 0.4), face(3, 0.6, false)], null)?.id).toBe(2);
+    });
+
+    it('keeps the pinned face over a larger one', () => {
+        expect(selectPrimaryFace([face(1, 0.2), face(2, 0.4)], 1)?.id).toBe(1);
+    });
+
+    it('reads no one while the pinned face is out of view', () => {
+        expect(selectPrimaryFace([face(1, 0.2, false), face(2, 0.4)], 1)).toBeNull();
+    });
+
+    it('does not switch to someone else once the pinned track is gone', () => {
+        expect(selectPrimaryFace([face(2, 0.4)], 1)).toBeNull();
+    });
+});
@@ -0,0 +1,101 @@
+import type { DetectedFace } from './faceDetectionClient';
+
+/**
+ * Gives faces stable IDs across frames and picks which one is the user.
+ *
+ * Faces are matched to existing tracks by bounding-box overlap (IoU), greedily from
+ * the best overlap down. A track survives brief detection dropouts so a blink or a
+ * turned head does not hand the face a new ID.
+ */
+
+export interface TrackedFace extends DetectedFace {
+    id: number;
+    /** Time the face was last seen; older than the current frame while it is missing. */
+    lastSeen: number;
+    /** False while the track is kept alive through a dropout. */
+    isVisible: boolean;
+}
+
+export interface FaceIdentityTrackerOptions {
+    /** Minimum overlap for a detection to continue an existing track. */
+    minIou: number;
+    /** How long a track is kept after its face was last detected. */
+    maxMissingMs: number;
+}
+
+const DEFAULT_OPTIONS: FaceIdentityTrackerOptions = {
+    minIou: 0.3,
+    maxMissingMs: 1500,
+};
+
+type Box = DetectedFace['box'];
+
+export function boxIou(a: Box, b: Box): number {
+    const left = Math.max(a.x, b.x);
+    const top = Math.max(a.y, b.y);
+    const right = Math.min(a.x + a.width, b.x + b.width);
+    const bottom = Math.min(a.y + a.height, b.y + b.height);
+    const intersection = Math.max(0, right - left) * Math.max(0, bottom - top);
+    const union = a.width * a.height + b.width * b.height - intersection;
+    return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Chooses the face the app should read emotions from.
+ * @param pinnedId The face the user pinned, if any. It always wins, even when it is
+ *   not visible or its track has been dropped, so emotions never jump to someone else.
+ * @returns The primary track, or null when the pinned face is missing or no face is visible.
+ */
+export function selectPrimaryFace(faces: TrackedFace[], pinnedId: number | null): TrackedFace | null {
+    if (pinnedId !== null) {
+        const pinned = faces.find(face => face.id === pinnedId);
+        return pinned?.isVisible ? pinned : null;
+    }
+    // Otherwise assume the person closest to the camera, i.e. the largest face.
+    const visible = faces.filter(face => face.isVisible);
+    if (visible.length === 0) return null;
+    return visible.reduce((a, b) => (b.box.width * b.box.height > a.box.width * a.box.height ? b : a));
+}
+
+export function createFaceIdentityTracker(options: Partial<FaceIdentityTrackerOptions> = {}) {
+    const config = { ...DEFAULT_OPTIONS, ...options };
+    let tracks: TrackedFace[] = [];
+    let nextId = 1;
+
+    const update = (faces: DetectedFace[], timestamp: number): TrackedFace[] => {
+        const candidates: { track: number; face: number; iou: number }[] = [];
+        tracks.forEach((track, t) => faces.forEach((face, f) => {
+            const iou = boxIou(track.box, face.box);
+            if (iou >= config.minIou) candidates.push({ track: t, face: f, iou });
+        }));
+        candidates.sort((a, b) => b.iou - a.iou);
+
+        const matchedTracks = new Set<number>();
+        const matchedFaces = new Set<number>();
+        const next: TrackedFace[] = [];
+        for (const { track, face } of candidates) {
+            if (matchedTracks.has(track) || matchedFaces.has(face)) continue;
+            matchedTracks.add(track);
+            matchedFaces.add(face);
+            next.push({ ...faces[face], id: tracks[track].id, lastSeen: timestamp, isVisible: true });
+        }
+        tracks.forEach((track, t) => {
+            if (!matchedTracks.has(t) && timestamp - track.lastSeen <= config.maxMissingMs) {
+                next.push({ ...track, isVisible: false });
+            }
+        });
+        faces.forEach((face, f) => {
+            if (!matchedFaces.has(f)) next.push({ ...face, id: nextId++, lastSeen: timestamp, isVisible: true });
+        });
+
+        tracks = next.sort((a, b) => a.id - b.id);
+        return tracks;
+    };
+
+    const reset = () => {
+        tracks = [];
+        nextId = 1;
+    };
+
+    return { update, reset };
+}
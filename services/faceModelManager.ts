@@ -0,0 +1,148 @@
+import * as faceapi from '@vladmandic/face-api';
+import { FaceDetectorVariant, ModelLoadProgress } from './faceDetectors';
+
+/**
+ * Loads the face detection and expression models shipped with the app. Runs inside
+ * the face detection worker.
+ *
+ * Weights are served from `/models/` (see the `faceModels` plugin in vite.config.ts),
+ * downloaded with progress reporting and kept in Cache Storage so later visits and
+ * offline use do not need the network at all.
+ */
+
+interface ModelSpec {
+    manifest: string;
+    net: () => faceapi.NeuralNetwork<unknown>;
+}
+
+const DETECTOR_MODELS: Record<FaceDetectorVariant, ModelSpec> = {
+    tiny: { manifest: 'tiny_face_detector_model-weights_manifest.json', net: () => faceapi.nets.tinyFaceDetector },
+    ssd: { manifest: 'ssd_mobilenetv1_model-weights_manifest.json', net: () => faceapi.nets.ssdMobilenetv1 },
+};
+
+const EXPRESSION_MODEL: ModelSpec = {
+    manifest: 'face_expression_model-weights_manifest.json',
+    net: () => faceapi.nets.faceExpressionNet,
+};
+
+// Bump when the bundled weights change so stale copies are not served from the cache.
+const MODEL_CACHE_NAME = 'face-models-v1';
+
+export function createDetectorOptions(variant: FaceDetectorVariant): faceapi.FaceDetectionOptions {
+    return variant === 'ssd'
+        ? new faceapi.SsdMobilenetv1Options({ minConfidence: 0.5 })
+        : new faceapi.TinyFaceDetectorOptions({ inputSize: 320 });
+}
+
+const openCache = async (): Promise<Cache | null> => {
+    // Cache Storage is missing in insecure contexts; loading still works without it.
+    if (typeof caches === 'undefined') return null;
+    try {
+        return await caches.open(MODEL_CACHE_NAME);
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Fetches a file from the cache or the network, reporting bytes as they arrive.
+ * @param onSize Called once with the file size, if known, before any bytes are reported.
+ */
+const fetchModelFile = async (
+    url: string,
+    cache: Cache | null,
+    onSize: (bytes: number | null) => void,
+    onBytes: (bytes: number) => void,
+): Promise<ArrayBuffer> => {
+    const cached = await cache?.match(url);
+    if (cached) {
+        const buffer = await cached.arrayBuffer();
+        onSize(buffer.byteLength);
+        onBytes(buffer.byteLength);
+        return buffer;
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to download ${url} (${response.status})`);
+    }
+    const length = Number(response.headers.get('Content-Length'));
+    onSize(length > 0 ? length : null);
+
+    let buffer: ArrayBuffer;
+    if (response.body) {
+        const reader = response.body.getReader();
+        const chunks: Uint8Array[] = [];
+        let received = 0;
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            chunks.push(value);
+            received += value.byteLength;
+            onBytes(value.byteLength);
+        }
+        const bytes = new Uint8Array(received);
+        let offset = 0;
+        chunks.forEach(chunk => { bytes.set(chunk, offset); offset += chunk.byteLength; });
+        buffer = bytes.buffer;
+    } else {
+        buffer = await response.arrayBuffer();
+        onBytes(buffer.byteLength);
+    }
+
+    await cache?.put(url, new Response(buffer.slice(0), { headers: { 'Content-Type': response.headers.get('Content-Type') ?? 'application/octet-stream' } }))
+        .catch(err => console.warn("Could not cache face model file:", err));
+    return buffer;
+};
+
+const concatBuffers = (buffers: ArrayBuffer[]): ArrayBuffer => {
+    const total = buffers.reduce((sum, b) => sum + b.byteLength, 0);
+    const bytes = new Uint8Array(total);
+    let offset = 0;
+    buffers.forEach(b => { bytes.set(new Uint8Array(b), offset); offset += b.byteLength; });
+    return bytes.buffer;
+};
+
+/**
+ * Loads the selected face detector plus the expression model, skipping any that are
+ * already in memory.
+ * @param baseUrl Absolute URL of the models directory. Relative URLs would resolve
+ *   against the worker script rather than the page.
+ */
+export async function loadFaceModels(
+    variant: FaceDetectorVariant,
+    baseUrl: string,
+    onProgress?: (progress: ModelLoadProgress) => void,
+): Promise<void> {
+    const pending = [DETECTOR_MODELS[variant], EXPRESSION_MODEL].filter(model => !model.net().isLoaded);
+    if (pending.length === 0) return;
+
+    const cache = await openCache();
+    const decoder = new TextDecoder();
+    const manifests = await Promise.all(pending.map(async model => {
+        const url = baseUrl + model.manifest;
+        const buffer = await fetchModelFile(url, cache, () => {}, () => {});
+        return JSON.parse(decoder.decode(buffer)) as faceapi.tf.io.WeightsManifestConfig;
+    }));
+
+    const fileCount = manifests.reduce((sum, manifest) => sum + manifest.reduce((n, group) => n + group.paths.length, 0), 0);
+    const sizes: (number | null)[] = [];
+    let loadedBytes = 0;
+    const report = () => {
+        const allKnown = sizes.length === fileCount && sizes.every(size => size !== null);
+        onProgress?.({ loadedBytes, totalBytes: allKnown ? sizes.reduce((sum, size) => sum + size, 0) : null });
+    };
+
+    await Promise.all(pending.map(async (model, i) => {
+        const manifest = manifests[i];
+        const buffers = await Promise.all(manifest.flatMap(group => group.paths).map(path =>
+            fetchModelFile(
+                baseUrl + path,
+                cache,
+                size => { sizes.push(size); report(); },
+                bytes => { loadedBytes += bytes; report(); },
+            )));
+        const specs = manifest.flatMap(group => group.weights);
+        model.net().loadFromWeightMap(faceapi.tf.io.decodeWeights(concatBuffers(buffers), specs));
+    }));
+}
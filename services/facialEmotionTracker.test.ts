@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Emotion, EmotionScores } from '../types';
+import { createEmptyScores } from '../utils/emotionScores';
+import { createFacialEmotionTracker, FacialEmotionTracker } from './facialEmotionTracker';
+
+const FRAME_MS = 100;
+
+const expression = (emotion: Emotion): EmotionScores => {
+    const scores = createEmptyScores();
+    scores[emotion] = 0.9;
+    scores.Neutral += 0.1;
+    return scores;
+};
+
+/** Feeds one frame every FRAME_MS from `from` until before `to`, returning the last update. */
+const feed = (tracker: FacialEmotionTracker, scores: EmotionScores | null, from: number, to: number) => {
+    let last = tracker.update(scores, from);
+    for (let t = from + FRAME_MS; t < to; t += FRAME_MS) last = tracker.update(scores, t);
+    return last;
+};
+
+describe('createFacialEmotionTracker', () => {
+    it('adopts the first face it sees straight away', () => {
+        const tracker = createFacialEmotionTracker();
+        expect(tracker.update(expression('Happy'), 0)).toMatchObject({ state: { emotion: 'Happy', status: 'tracking' }, changed: true });
+    });
+
+    it('ignores a brief flicker to another expression', () => {
+        const tracker = createFacialEmotionTracker();
+        feed(tracker, expression('Happy'), 0, 2000);
+        const flicker = feed(tracker, expression('Angry'), 2000, 2300);
+        expect(flicker.state.emotion).toBe('Happy');
+        expect(feed(tracker, expression('Happy'), 2300, 4000).state.emotion).toBe('Happy');
+    });
+
+    it('switches once a new expression has held for the dwell time', () => {
+        const tracker = createFacialEmotionTracker({ minDwellMs: 800 });
+        feed(tracker, expression('Happy'), 0, 2000);
+        const updates = [];
+        for (let t = 2000; t < 4000; t += FRAME_MS) updates.push({ t, ...tracker.update(expression('Sad'), t) });
+        const switched = updates.find(u => u.changed);
+        expect(switched?.state.emotion).toBe('Sad');
+        // The new expression first has to overtake the smoothed old one, then dwell.
+        expect(switched?.t).toBeGreaterThanOrEqual(2000 + 800);
+        expect(updates.filter(u => u.changed)).toHaveLength(1);
+    });
+
+    it('keeps the last reading through a short dropout', () => {
+        const tracker = createFacialEmotionTracker({ noFaceTimeoutMs: 3000 });
+        feed(tracker, expression('Sad'), 0, 1000);
+        const dropout = feed(tracker, null, 1000, 3900);
+        expect(dropout.state).toMatchObject({ emotion: 'Sad', status: 'tracking' });
+    });
+
+    it('reports no face once the timeout passes, and only once', () => {
+        const tracker = createFacialEmotionTracker({ noFaceTimeoutMs: 3000 });
+        feed(tracker, expression('Sad'), 0, 1000);
+        // The last face was seen at 900ms.
+        expect(tracker.update(null, 3899).changed).toBe(false);
+        expect(tracker.update(null, 3900)).toMatchObject({ state: { emotion: 'Neutral', status: 'no-face' }, changed: true });
+        expect(tracker.update(null, 5000).changed).toBe(false);
+    });
+
+    it('times out from the start when no face ever appears', () => {
+        const tracker = createFacialEmotionTracker({ noFaceTimeoutMs: 3000 });
+        expect(feed(tracker, null, 0, 3000).state.status).toBe('searching');
+        expect(tracker.update(null, 3000).state.status).toBe('no-face');
+    });
+
+    it('picks up the new expression as soon as a face returns', () => {
+        const tracker = createFacialEmotionTracker({ noFaceTimeoutMs: 3000 });
+        feed(tracker, expression('Sad'), 0, 1000);
+        feed(tracker, null, 1000, 5000);
+        expect(tracker.update(expression('Happy'), 5000)).toMatchObject({ state: { emotion: 'Happy', status: 'tracking' }, changed: true });
+    });
+});
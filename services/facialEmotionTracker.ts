@@ -0,0 +1,132 @@
+import { Emotion, EmotionScores, FaceStatus } from '../types';
+import { createEmptyScores, dominantEmotion, EMOTIONS, normalizeScores } from '../utils/emotionScores';
+
+/**
+ * Temporal smoothing for per-frame facial expression scores.
+ *
+ * Detection runs several times a second and a single frame's argmax flickers between
+ * labels. The tracker keeps a rolling window of frames, smooths it with exponentially
+ * decaying weights, and only switches label once a new emotion has led by a margin
+ * (hysteresis) for a minimum dwell time.
+ */
+
+export interface FacialEmotionTrackerOptions {
+    /** Frames older than this are dropped from the rolling window. */
+    windowMs?: number;
+    /** Time constant of the exponential weighting; smaller reacts faster. */
+    smoothingMs?: number;
+    /** How far a challenger's smoothed score must exceed the current emotion's. */
+    hysteresis?: number;
+    /** How long a challenger must stay dominant before the label switches. */
+    minDwellMs?: number;
+    /** How long without a detected face before reporting 'no-face'. */
+    noFaceTimeoutMs?: number;
+}
+
+export interface FacialEmotionState {
+    emotion: Emotion;
+    status: FaceStatus;
+    /** Smoothed distribution over the current window. */
+    scores: EmotionScores;
+}
+
+export interface FacialEmotionUpdate {
+    state: FacialEmotionState;
+    /** True when the emotion label or face status differs from the previous update. */
+    changed: boolean;
+}
+
+export interface FacialEmotionTracker {
+    /**
+     * Records one detection result.
+     * @param scores The frame's expression distribution, or null when no face was found.
+     */
+    update: (scores: EmotionScores | null, timestamp: number) => FacialEmotionUpdate;
+    reset: () => void;
+}
+
+interface Frame {
+    scores: EmotionScores;
+    timestamp: number;
+}
+
+export function createFacialEmotionTracker(options: FacialEmotionTrackerOptions = {}): FacialEmotionTracker {
+    const windowMs = options.windowMs ?? 2000;
+    const smoothingMs = options.smoothingMs ?? 600;
+    const hysteresis = options.hysteresis ?? 0.1;
+    const minDwellMs = options.minDwellMs ?? 800;
+    const noFaceTimeoutMs = options.noFaceTimeoutMs ?? 3000;
+
+    let frames: Frame[] = [];
+    let state: FacialEmotionState;
+    let candidate: Emotion | null = null;
+    let candidateSince = 0;
+    let lastFaceAt: number | null = null;
+    let startedAt: number | null = null;
+
+    const reset = () => {
+        frames = [];
+        state = { emotion: 'Neutral', status: 'searching', scores: normalizeScores(createEmptyScores()) };
+        candidate = null;
+        candidateSince = 0;
+        lastFaceAt = null;
+        startedAt = null;
+    };
+    reset();
+
+    const smooth = (now: number): EmotionScores => {
+        const weighted = createEmptyScores();
+        for (const frame of frames) {
+            const weight = Math.exp(-(now - frame.timestamp) / smoothingMs);
+            for (const emotion of EMOTIONS) {
+                weighted[emotion] += frame.scores[emotion] * weight;
+            }
+        }
+        return normalizeScores(weighted);
+    };
+
+    const update = (scores: EmotionScores | null, timestamp: number): FacialEmotionUpdate => {
+        const previous = state;
+        startedAt ??= timestamp;
+        frames = frames.filter(f => timestamp - f.timestamp <= windowMs);
+
+        if (!scores) {
+            // Short dropouts (a turned head, motion blur) keep the last reading.
+            const lastSeen = lastFaceAt ?? startedAt;
+            if (timestamp - lastSeen >= noFaceTimeoutMs && state.status !== 'no-face') {
+                frames = [];
+                candidate = null;
+                state = { emotion: 'Neutral', status: 'no-face', scores: normalizeScores(createEmptyScores()) };
+            }
+            return { state, changed: state !== previous };
+        }
+
+        lastFaceAt = timestamp;
+        frames.push({ scores, timestamp });
+        const smoothed = smooth(timestamp);
+
+        if (state.status !== 'tracking') {
+            // First face after a gap: adopt the reading immediately rather than dwelling on a stale label.
+            candidate = null;
+            state = { emotion: dominantEmotion(smoothed).emotion, status: 'tracking', scores: smoothed };
+            return { state, changed: true };
+        }
+
+        const leader = dominantEmotion(smoothed).emotion;
+        let emotion = state.emotion;
+        if (leader === state.emotion || smoothed[leader] - smoothed[state.emotion] < hysteresis) {
+            candidate = null;
+        } else if (candidate !== leader) {
+            candidate = leader;
+            candidateSince = timestamp;
+        } else if (timestamp - candidateSince >= minDwellMs) {
+            emotion = leader;
+            candidate = null;
+        }
+
+        state = { emotion, status: 'tracking', scores: smoothed };
+        return { state, changed: emotion !== previous.emotion };
+    };
+
+    return { update, reset };
+}
@@ -1,33 +1,55 @@
 
-import { GoogleGenAI, Modality, Content, LiveServerMessage } from "@google/genai";
-import { FusedEmotion, ChatMessage } from "../types";
+import { GoogleGenAI, Modality, Content, Session, GenerateContentResponse } from "@google/genai";
+import { ChatMessage } from "../types";
+import { LiveSessionCallbacks } from "./providers/types";
+import { applyStylePrompt, SpeechStyle } from "./speechStyle";
+import { ServiceError, toServiceError, withRetry } from "./serviceErrors";
+import { getApiKey, redactForLog } from "./apiKeyManager";
 
 function getAiClient() {
-    // Prioritize key from sessionStorage for local development,
-    // then fallback to process.env.API_KEY for the hosted environment.
-    const apiKey = sessionStorage.getItem('gemini-api-key') || process.env.API_KEY;
+    const apiKey = getApiKey();
     
     if (!apiKey) {
-      throw new Error("Gemini API key not found. Please provide a key in the modal.");
+      throw new ServiceError('invalid-key', "Gemini API key not found. Please provide a key in the modal.");
     }
     return new GoogleGenAI({ apiKey: apiKey });
 }
 
-export type LiveSessionCallbacks = {
-    onopen: () => void;
-    onmessage: (message: LiveServerMessage) => void;
-    onerror: (e: ErrorEvent) => void;
-    onclose: (e: CloseEvent) => void;
+/**
+ * Checks a key with a cheap metadata request before it is accepted.
+ * @throws A `ServiceError`; `invalid-key` when the key was rejected.
+ */
+export async function validateApiKey(apiKey: string): Promise<void> {
+    try {
+        const ai = new GoogleGenAI({ apiKey });
+        await withRetry(() => ai.models.get({ model: 'gemini-2.5-flash' }), { maxAttempts: 2 });
+    } catch (error) {
+        console.error("Error validating API key:", redactForLog(error));
+        throw toServiceError(error);
+    }
+}
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+/**
+ * Turns a response the safety filters stopped into an error; otherwise it would
+ * just look like an empty reply.
+ */
+function throwIfBlocked(response: GenerateContentResponse) {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+        throw new ServiceError('safety', "The reply was blocked by the safety filters. Try rephrasing your message.", blockReason ?? finishReason);
+    }
 }
 
 export function startLiveSession(
-  emotion: FusedEmotion,
   voiceName: string,
+  systemInstruction: string,
   callbacks: LiveSessionCallbacks
 ) {
   try {
     const ai = getAiClient();
-    const systemInstruction = `You are a friendly and empathetic emotional assistant. The user is currently feeling ${emotion.toLowerCase()}. Your goal is to provide a supportive, kind, and conversational response. Keep your answers concise and natural, similar to how a person would talk. Do not mention that you are an AI.`;
 
     const sessionPromise = ai.live.connect({
         model: 'gemini-2.5-flash-native-audio-preview-09-2025',
@@ -45,24 +67,34 @@ export function startLiveSession(
 
     return sessionPromise;
   } catch (error) {
-    console.error("Error starting live session:", error);
-    throw error;
+    console.error("Error starting live session:", redactForLog(error));
+    throw toServiceError(error);
   }
 }
 
+/**
+ * Adds a contextual note to a running live session without asking for a reply.
+ */
+export function sendLiveContextUpdate(session: Session, text: string) {
+    // turnComplete: false keeps the model listening instead of answering the note.
+    session.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text }] }],
+        turnComplete: false,
+    });
+}
 
-export async function generateEmpatheticResponse(
+
+/**
+ * Streams the reply to a typed message.
+ * @yields Text deltas in the order they are generated.
+ */
+export async function* streamEmpatheticResponse(
   userInput: string,
-  emotion: FusedEmotion,
-  chatHistory: ChatMessage[]
-) {
+  chatHistory: ChatMessage[],
+  systemInstruction: string
+): AsyncGenerator<string> {
   try {
     const ai = getAiClient();
-    const systemInstruction = `You are a friendly and empathetic emotional assistant. 
-      The user is currently feeling ${emotion.toLowerCase()}. 
-      Your goal is to provide a supportive, kind, and conversational response. 
-      Keep your answers concise and natural, similar to how a person would talk. 
-      Do not mention that you are an AI.`;
 
     // Format the history for the API, excluding the last empty AI message placeholder
     const contents: Content[] = chatHistory
@@ -81,7 +113,8 @@ export async function generateEmpatheticResponse(
         { role: 'user', parts: [{ text: userInput }] }
     ];
 
-    const response = await ai.models.generateContent({
+    // Only opening the stream is retried; a reply that already started cannot be resumed.
+    const stream = await withRetry(() => ai.models.generateContentStream({
         model: 'gemini-2.5-flash',
         contents: finalContents,
         config: {
@@ -89,21 +122,24 @@ export async function generateEmpatheticResponse(
             temperature: 0.7,
             topP: 0.95,
         }
-    });
+    }));
 
-    return response.text;
+    for await (const chunk of stream) {
+        throwIfBlocked(chunk);
+        if (chunk.text) yield chunk.text;
+    }
   } catch (error) {
-    console.error("Error generating empathetic response:", error);
-    throw error;
+    console.error("Error generating empathetic response:", redactForLog(error));
+    throw toServiceError(error);
   }
 }
 
-export async function generateSpeech(text: string, voiceName: string): Promise<string | null> {
+export async function generateSpeech(text: string, voiceName: string, style?: SpeechStyle): Promise<string | null> {
     try {
         const ai = getAiClient();
-        const response = await ai.models.generateContent({
+        const response = await withRetry(() => ai.models.generateContent({
             model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: text }] }],
+            contents: [{ parts: [{ text: applyStylePrompt(text, style) }] }],
             config: {
                 responseModalities: [Modality.AUDIO],
                 speechConfig: {
@@ -112,7 +148,8 @@ export async function generateSpeech(text: string, voiceName: string): Promise<s
                     },
                 },
             },
-        });
+        }));
+        throwIfBlocked(response);
 
         const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
         if (base64Audio) {
@@ -121,7 +158,7 @@ export async function generateSpeech(text: string, voiceName: string): Promise<s
         return null;
 
     } catch (error) {
-        console.error("Error generating speech:", error);
-        throw error;
+        console.error("Error generating speech:", redactForLog(error));
+        throw toServiceError(error);
     }
 }
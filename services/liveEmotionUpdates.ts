@@ -0,0 +1,72 @@
+import { FusedEmotion, FusionResult } from '../types';
+
+/**
+ * Decides when a running live session should be told that the user's mood changed.
+ *
+ * An update is only sent once a new fused emotion has been held with enough
+ * confidence for a while, and never more often than the configured interval, so
+ * brief fluctuations do not flood the model with context turns.
+ */
+
+export interface EmotionUpdateGateOptions {
+    /** Minimum fused confidence for a change to be reported. */
+    minConfidence?: number;
+    /** How long the new emotion must persist before it is reported. */
+    stableForMs?: number;
+    /** Minimum time between two updates. */
+    minIntervalMs?: number;
+}
+
+export interface EmotionUpdateGate {
+    /** Returns true when `result` should be sent now; the gate then treats it as sent. */
+    check: (result: FusionResult, now: number) => boolean;
+    /** Starts over from the emotion the session was opened with. */
+    reset: (emotion: FusedEmotion, now: number) => void;
+}
+
+export function createEmotionUpdateGate(options: EmotionUpdateGateOptions = {}): EmotionUpdateGate {
+    const minConfidence = options.minConfidence ?? 0.5;
+    const stableForMs = options.stableForMs ?? 3000;
+    const minIntervalMs = options.minIntervalMs ?? 20000;
+
+    let lastSentEmotion: FusedEmotion = 'Neutral';
+    let lastSentAt = -Infinity;
+    let pendingEmotion: FusedEmotion | null = null;
+    let pendingSince = 0;
+
+    const reset = (emotion: FusedEmotion, now: number) => {
+        lastSentEmotion = emotion;
+        // The system instruction already carried this emotion, so count it as a send.
+        lastSentAt = now;
+        pendingEmotion = null;
+    };
+
+    const check = (result: FusionResult, now: number): boolean => {
+        if (result.emotion === lastSentEmotion || result.confidence < minConfidence) {
+            pendingEmotion = null;
+            return false;
+        }
+        if (pendingEmotion !== result.emotion) {
+            pendingEmotion = result.emotion;
+            pendingSince = now;
+            return false;
+        }
+        if (now - pendingSince < stableForMs || now - lastSentAt < minIntervalMs) {
+            return false;
+        }
+        lastSentEmotion = result.emotion;
+        lastSentAt = now;
+        pendingEmotion = null;
+        return true;
+    };
+
+    return { check, reset };
+}
+
+export function buildEmotionContextUpdate(result: FusionResult): string {
+    const sources = Object.keys(result.modalities);
+    const basis = sources.length ? ` based on their ${sources.join(', ')}` : '';
+    return `[Context update, not said by the user: the user now appears to be feeling ${result.emotion.toLowerCase()}${basis} ` +
+        `(confidence ${Math.round(result.confidence * 100)}%). Gently adapt your tone to this from now on. ` +
+        `Do not mention this note or that their emotion is being detected.]`;
+}
@@ -0,0 +1,139 @@
+import { ChatMessage, FusedEmotion } from '../types';
+
+/**
+ * Assistant personas and the system prompt built from them.
+ *
+ * A persona is a prompt template with `{{variable}}` placeholders. The same builder
+ * produces the system instruction for typed replies and for live sessions, so both
+ * paths always speak with the same voice. Users can edit the built-in templates;
+ * edits are kept as overrides so a template can be reset to its default.
+ */
+
+export interface Persona {
+    id: string;
+    name: string;
+    description: string;
+    template: string;
+}
+
+export interface PromptContext {
+    emotion: FusedEmotion;
+    /** 0..1 confidence of the fused emotion. */
+    confidence: number;
+    userName: string;
+    /** A short description of the conversation so far. */
+    sessionContext: string;
+}
+
+export interface PersonaSettings {
+    activePersonaId: string;
+    userName: string;
+    /** Edited templates by persona ID. */
+    templates: Record<string, string>;
+}
+
+export const PROMPT_VARIABLES: { name: keyof PromptContext; description: string }[] = [
+    { name: 'emotion', description: "The user's current fused emotion, e.g. \"sad\"" },
+    { name: 'confidence', description: 'How sure the emotion reading is, e.g. "72%"' },
+    { name: 'userName', description: 'The name from these settings, or "the user"' },
+    { name: 'sessionContext', description: 'A one-line summary of the conversation so far' },
+];
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+    {
+        id: 'supportive-listener',
+        name: 'Supportive listener',
+        description: 'Warm and patient. Reflects feelings back and lets you lead.',
+        template: 'You are a friendly and empathetic emotional assistant talking with {{userName}}. '
+            + 'They currently seem to be feeling {{emotion}} ({{confidence}} confidence). {{sessionContext}} '
+            + 'Your goal is to provide a supportive, kind, and conversational response. Listen more than you advise, '
+            + 'acknowledge their feelings, and ask gentle open questions.',
+    },
+    {
+        id: 'cbt-coach',
+        name: 'CBT-style coach',
+        description: 'Helps spot unhelpful thoughts and try small, practical steps.',
+        template: 'You are a calm coach who uses ideas from cognitive behavioural therapy, talking with {{userName}}. '
+            + 'They currently seem to be feeling {{emotion}} ({{confidence}} confidence). {{sessionContext}} '
+            + 'Help them notice the thoughts behind their feelings, gently question unhelpful patterns, and suggest one small, '
+            + 'concrete step they could try. You are not a therapist and do not diagnose.',
+    },
+    {
+        id: 'cheerful-companion',
+        name: 'Cheerful companion',
+        description: 'Upbeat and playful, for light conversation and a lift.',
+        template: 'You are an upbeat, playful companion chatting with {{userName}}. '
+            + 'They currently seem to be feeling {{emotion}} ({{confidence}} confidence). {{sessionContext}} '
+            + 'Bring warmth and a light sense of humour, celebrate the good things, and match your energy to theirs. '
+            + 'If they are struggling, drop the jokes and be kind.',
+    },
+];
+
+// Appended to every persona so edited templates cannot drop them.
+const SHARED_GUIDELINES = 'Keep your answers concise and natural, similar to how a person would talk. '
+    + 'Do not mention that you are an AI. If the user mentions wanting to hurt themselves or others, '
+    + 'respond with care and encourage them to contact a crisis line or emergency services.';
+
+const SETTINGS_STORAGE_KEY = 'persona-settings';
+
+export const DEFAULT_PERSONA_SETTINGS: PersonaSettings = {
+    activePersonaId: BUILT_IN_PERSONAS[0].id,
+    userName: '',
+    templates: {},
+};
+
+export function getPersonaSettings(): PersonaSettings {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? 'null');
+        return stored ? { ...DEFAULT_PERSONA_SETTINGS, ...stored } : DEFAULT_PERSONA_SETTINGS;
+    } catch {
+        return DEFAULT_PERSONA_SETTINGS;
+    }
+}
+
+export function savePersonaSettings(settings: PersonaSettings) {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * The active persona with any edited template applied.
+ */
+export function resolvePersona(settings: PersonaSettings): Persona {
+    const persona = BUILT_IN_PERSONAS.find(p => p.id === settings.activePersonaId) ?? BUILT_IN_PERSONAS[0];
+    const template = settings.templates[persona.id]?.trim();
+    return template ? { ...persona, template } : persona;
+}
+
+/**
+ * Replaces `{{variable}}` placeholders. Unknown names are left in place so a typo
+ * shows up in the preview instead of silently vanishing.
+ */
+export function renderPromptTemplate(template: string, context: PromptContext): string {
+    const values: Record<keyof PromptContext, string> = {
+        emotion: context.emotion.toLowerCase(),
+        confidence: `${Math.round(context.confidence * 100)}%`,
+        userName: context.userName.trim() || 'the user',
+        sessionContext: context.sessionContext,
+    };
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+        name in values ? values[name as keyof PromptContext] : placeholder);
+}
+
+export function buildSystemPrompt(persona: Persona, context: PromptContext): string {
+    return `${renderPromptTemplate(persona.template, context).replace(/\s+/g, ' ').trim()}\n\n${SHARED_GUIDELINES}`;
+}
+
+/**
+ * Summarizes the conversation for the `sessionContext` variable.
+ */
+export function describeSessionContext(history: ChatMessage[]): string {
+    const userMessages = history.filter(m => m.sender === 'user');
+    if (userMessages.length === 0) return 'This is the start of the conversation.';
+    const summary = `You have exchanged ${history.length} messages so far.`;
+    const first = userMessages[0].emotion?.emotion;
+    const last = userMessages[userMessages.length - 1].emotion?.emotion;
+    if (!first || !last) return summary;
+    return first === last
+        ? `${summary} Their mood has stayed mostly ${last.toLowerCase()}.`
+        : `${summary} Their mood has moved from ${first.toLowerCase()} to ${last.toLowerCase()}.`;
+}
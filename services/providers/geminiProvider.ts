@@ -0,0 +1,22 @@
+import { LLMProvider } from "./types";
+import { generateSpeech, sendLiveContextUpdate, startLiveSession, streamEmpatheticResponse } from "../geminiService";
+import { buildEmotionContextUpdate } from "../liveEmotionUpdates";
+
+export const geminiProvider: LLMProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    requiresApiKey: true,
+    streamResponse: (userInput, _emotion, chatHistory, systemInstruction) =>
+        streamEmpatheticResponse(userInput, chatHistory, systemInstruction),
+    generateSpeech,
+    connectLive: async (_emotion, voiceName, systemInstruction, callbacks) => {
+        const session = await startLiveSession(voiceName, systemInstruction, callbacks);
+        return {
+            sendAudio: (audio) => session.sendRealtimeInput({ media: audio }),
+            endAudioStream: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+            sendContext: (text) => sendLiveContextUpdate(session, text),
+            sendEmotionUpdate: (result) => sendLiveContextUpdate(session, buildEmotionContextUpdate(result)),
+            close: () => session.close(),
+        };
+    },
+};
@@ -0,0 +1,31 @@
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { LLMProvider, ProviderId } from "./types";
+
+export type { LiveSession, LiveSessionCallbacks, LLMProvider, ProviderId } from "./types";
+
+const PROVIDER_STORAGE_KEY = 'llm-provider';
+
+const PROVIDERS: Record<ProviderId, LLMProvider> = {
+    gemini: geminiProvider,
+    mock: mockProvider,
+};
+
+const isProviderId = (value: unknown): value is ProviderId =>
+    typeof value === 'string' && value in PROVIDERS;
+
+/**
+ * The provider chosen for this browser session, falling back to the build-time
+ * `LLM_PROVIDER` setting and then to Gemini.
+ */
+export function getActiveProvider(): LLMProvider {
+    const stored = sessionStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (isProviderId(stored)) return PROVIDERS[stored];
+    const configured = process.env.LLM_PROVIDER;
+    return isProviderId(configured) ? PROVIDERS[configured] : geminiProvider;
+}
+
+export function setActiveProvider(id: ProviderId): LLMProvider {
+    sessionStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    return PROVIDERS[id];
+}
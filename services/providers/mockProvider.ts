@@ -0,0 +1,188 @@
+import { LiveServerMessage } from "@google/genai";
+import { FusedEmotion } from "../../types";
+import { decode, encode } from "../../utils/audioUtils";
+import { LiveSession, LiveSessionCallbacks, LLMProvider } from "./types";
+
+/**
+ * Deterministic offline provider for development, demos and tests.
+ *
+ * Replies are picked from canned empathetic responses for the detected emotion,
+ * speech is a sequence of soft tones (one per word) rather than real TTS, and the
+ * live session answers after each pause in the microphone input. No network calls
+ * are made and no API key is needed.
+ */
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const INPUT_SAMPLE_RATE = 16000;
+const SIMULATED_LATENCY_MS = 400;
+const STREAM_WORD_INTERVAL_MS = 60;
+// Live turn-taking thresholds on the incoming microphone audio.
+const SPEECH_RMS_THRESHOLD = 0.02;
+const MIN_SPEECH_MS = 300;
+const END_OF_TURN_SILENCE_MS = 800;
+
+const CANNED_RESPONSES: Record<FusedEmotion, string[]> = {
+    Happy: [
+        "That's wonderful to hear! What's been the best part of it for you?",
+        "I love that energy. It sounds like things are going really well right now.",
+        "That really made me smile. Tell me more about what's making you feel this way.",
+    ],
+    Sad: [
+        "I'm sorry you're going through this. I'm here, and we can take it one step at a time.",
+        "That sounds really hard. It's okay to feel this way. Do you want to talk about what's weighing on you?",
+        "Thank you for sharing that with me. You don't have to carry it all alone.",
+    ],
+    Angry: [
+        "It sounds like something really got under your skin. That frustration makes sense.",
+        "I can hear how upset you are. Let's slow down for a moment. What happened?",
+        "That would frustrate me too. What would help you feel a bit more in control right now?",
+    ],
+    Surprised: [
+        "Wow, that sounds unexpected! How are you feeling about it now?",
+        "That's quite a turn of events. Did you see any of that coming?",
+        "Oh, really? I'd love to hear how that came about.",
+    ],
+    Neutral: [
+        "I'm listening. What's on your mind today?",
+        "Thanks for sharing. How has your day been overall?",
+        "Got it. Is there anything in particular you'd like to talk through?",
+    ],
+};
+
+const hashString = (text: string): number => {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) {
+        hash = (hash * 31 + text.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+};
+
+const pickResponse = (emotion: FusedEmotion, seed: string): string => {
+    const options = CANNED_RESPONSES[emotion];
+    return options[hashString(seed) % options.length];
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Renders text as a short melody of enveloped sine tones, one per word.
+ * @returns Base64-encoded 24 kHz 16-bit mono PCM, matching the real TTS output format.
+ */
+export function synthesizeTones(text: string): string {
+    const words = text.split(/\s+/).filter(Boolean).slice(0, 40);
+    const gapSamples = Math.round(OUTPUT_SAMPLE_RATE * 0.04);
+    const segments = words.map(word => {
+        const durationMs = Math.min(320, 90 + word.length * 25);
+        return { samples: Math.round((OUTPUT_SAMPLE_RATE * durationMs) / 1000), frequency: 200 + (hashString(word) % 160) };
+    });
+    const total = segments.reduce((sum, s) => sum + s.samples + gapSamples, 0);
+    const pcm = new Int16Array(total);
+
+    let offset = 0;
+    for (const segment of segments) {
+        const fade = Math.round(segment.samples * 0.2);
+        for (let i = 0; i < segment.samples; i++) {
+            const envelope = Math.min(1, i / fade, (segment.samples - i) / fade);
+            const sample = 0.25 * envelope * Math.sin((2 * Math.PI * segment.frequency * i) / OUTPUT_SAMPLE_RATE);
+            pcm[offset + i] = Math.round(sample * 0x7FFF);
+        }
+        offset += segment.samples + gapSamples;
+    }
+    return encode(new Uint8Array(pcm.buffer));
+}
+
+const pcmRms = (base64: string): { rms: number; durationMs: number } => {
+    const bytes = decode(base64);
+    const samples = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+        const s = samples[i] / 0x8000;
+        sum += s * s;
+    }
+    return {
+        rms: samples.length ? Math.sqrt(sum / samples.length) : 0,
+        durationMs: (samples.length / INPUT_SAMPLE_RATE) * 1000,
+    };
+};
+
+function createMockLiveSession(emotion: FusedEmotion, callbacks: LiveSessionCallbacks): LiveSession {
+    let currentEmotion = emotion;
+    let isClosed = false;
+    let isUserSpeaking = false;
+    let speechMs = 0;
+    let silenceMs = 0;
+    let turn = 0;
+
+    const emit = (message: Partial<LiveServerMessage>) => {
+        if (!isClosed) callbacks.onmessage(message as LiveServerMessage);
+    };
+
+    const respond = async (spokenMs: number) => {
+        emit({ serverContent: { inputTranscription: { text: `(spoke for ${(spokenMs / 1000).toFixed(1)}s)` } } });
+        await delay(SIMULATED_LATENCY_MS);
+        const reply = pickResponse(currentEmotion, `live-${turn++}`);
+        emit({ serverContent: { outputTranscription: { text: reply } } });
+        emit({ serverContent: { modelTurn: { parts: [{ inlineData: { data: synthesizeTones(reply), mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}` } }] } } });
+        emit({ serverContent: { turnComplete: true } });
+    };
+
+    const endTurn = () => {
+        isUserSpeaking = false;
+        respond(speechMs);
+        speechMs = 0;
+        silenceMs = 0;
+    };
+
+    setTimeout(() => { if (!isClosed) callbacks.onopen(); }, 50);
+
+    return {
+        sendAudio: (audio) => {
+            if (isClosed || !audio.data) return;
+            const { rms, durationMs } = pcmRms(audio.data);
+            if (rms >= SPEECH_RMS_THRESHOLD) {
+                speechMs += durationMs;
+                silenceMs = 0;
+                if (speechMs >= MIN_SPEECH_MS) isUserSpeaking = true;
+            } else {
+                silenceMs += durationMs;
+                if (isUserSpeaking && silenceMs >= END_OF_TURN_SILENCE_MS) {
+                    endTurn();
+                } else if (!isUserSpeaking) {
+                    speechMs = 0;
+                }
+            }
+        },
+        endAudioStream: () => {
+            if (!isClosed && isUserSpeaking) endTurn();
+        },
+        // Canned replies have no conversation context for notes to go into.
+        sendContext: () => {},
+        sendEmotionUpdate: (result) => {
+            currentEmotion = result.emotion;
+        },
+        close: () => {
+            if (isClosed) return;
+            isClosed = true;
+            callbacks.onclose(new CloseEvent('close'));
+        },
+    };
+}
+
+export const mockProvider: LLMProvider = {
+    id: 'mock',
+    label: 'Offline demo',
+    requiresApiKey: false,
+    streamResponse: async function* (userInput, emotion, chatHistory) {
+        await delay(SIMULATED_LATENCY_MS);
+        const words = pickResponse(emotion, `${chatHistory.length}:${userInput}`).split(' ');
+        for (let i = 0; i < words.length; i++) {
+            yield i === 0 ? words[i] : ` ${words[i]}`;
+            await delay(STREAM_WORD_INTERVAL_MS);
+        }
+    },
+    generateSpeech: async (text) => {
+        await delay(SIMULATED_LATENCY_MS / 2);
+        return synthesizeTones(text);
+    },
+    connectLive: async (emotion, _voiceName, _systemInstruction, callbacks) => createMockLiveSession(emotion, callbacks),
+};
@@ -0,0 +1,45 @@
+import { Blob as GenAI_Blob, LiveServerMessage } from "@google/genai";
+import { ChatMessage, FusedEmotion, FusionResult } from "../../types";
+import { SpeechStyle } from "../speechStyle";
+
+export type ProviderId = 'gemini' | 'mock';
+
+export type LiveSessionCallbacks = {
+    onopen: () => void;
+    onmessage: (message: LiveServerMessage) => void;
+    onerror: (e: ErrorEvent) => void;
+    onclose: (e: CloseEvent) => void;
+}
+
+/**
+ * A running duplex audio conversation. Server events arrive through the
+ * `LiveSessionCallbacks` passed when connecting, in the Gemini Live message shape.
+ */
+export interface LiveSession {
+    /** Streams a chunk of 16 kHz 16-bit mono PCM. */
+    sendAudio: (audio: GenAI_Blob) => void;
+    /** Signals that the microphone stream paused, so the current user turn can be finalized. */
+    endAudioStream: () => void;
+    /** Adds a note to the conversation context without asking for a reply. */
+    sendContext: (text: string) => void;
+    /** Tells the session the user's mood has changed, so replies can adapt to it. */
+    sendEmotionUpdate: (result: FusionResult) => void;
+    close: () => void;
+}
+
+export interface LLMProvider {
+    id: ProviderId;
+    label: string;
+    requiresApiKey: boolean;
+    /**
+     * Yields the reply to a typed message as text deltas.
+     * @param systemInstruction The persona prompt from `buildSystemPrompt`.
+     */
+    streamResponse: (userInput: string, emotion: FusedEmotion, chatHistory: ChatMessage[], systemInstruction: string) => AsyncIterable<string>;
+    /**
+     * @param style Delivery for the current emotion; providers that cannot steer their voice ignore it.
+     * @returns Base64 24 kHz 16-bit mono PCM, or null if nothing was synthesized.
+     */
+    generateSpeech: (text: string, voiceName: string, style?: SpeechStyle) => Promise<string | null>;
+    connectLive: (emotion: FusedEmotion, voiceName: string, systemInstruction: string, callbacks: LiveSessionCallbacks) => Promise<LiveSession>;
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createChatMessage } from '../utils/chatMessage';
+import { LiveSession, LiveSessionCallbacks } from './providers';
+import { buildResumeContext, connectReconnectingLiveSession, ReconnectingLiveCallbacks } from './reconnectingLiveSession';
+
+type Plan = 'open' | 'reject' | 'reject-then-close';
+
+const fakeSession = (): LiveSession => ({
+    sendAudio: vi.fn(),
+    endAudioStream: vi.fn(),
+    sendContext: vi.fn(),
+    sendEmotionUpdate: vi.fn(),
+    close: vi.fn(),
+});
+
+/** A connector that follows `plans` in order, one per connection attempt. */
+const createConnector = (plans: Plan[]) => {
+    const attempts: { callbacks: LiveSessionCallbacks; isResume: boolean }[] = [];
+    const connect = vi.fn((callbacks: LiveSessionCallbacks, isResume: boolean): Promise<LiveSession> => {
+        attempts.push({ callbacks, isResume });
+        const plan = plans[attempts.length - 1] ?? 'reject';
+        if (plan === 'open') {
+            setTimeout(() => callbacks.onopen(), 0);
+            return Promise.resolve(fakeSession());
+        }
+        // Some failures surface both ways: the promise rejects and the socket reports closing.
+        if (plan === 'reject-then-close') setTimeout(() => callbacks.onclose({} as CloseEvent), 0);
+        return Promise.reject(new Error('Failed to fetch'));
+    });
+    /** Drops the connection made by the given attempt, as the network would. */
+    const drop = (attempt: number) => attempts[attempt].callbacks.onclose({} as CloseEvent);
+    return { connect, attempts, drop };
+};
+
+const createCallbacks = (): ReconnectingLiveCallbacks => ({
+    onopen: vi.fn(),
+    onmessage: vi.fn(),
+    onreconnecting: vi.fn(),
+    onreconnected: vi.fn(),
+    onerror: vi.fn(),
+    onclose: vi.fn(),
+});
+
+const BACKOFF = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+describe('connectReconnectingLiveSession', () => {
+    beforeEach(() => vi.useFakeTimers());
+    afterEach(() => vi.useRealTimers());
+
+    const start = async (plans: Plan[], maxAttempts = 5) => {
+        const connector = createConnector(plans);
+        const callbacks = createCallbacks();
+        const session = connectReconnectingLiveSession(connector.connect, callbacks, { ...BACKOFF, maxAttempts });
+        await vi.advanceTimersByTimeAsync(0);
+        await session;
+        return { ...connector, callbacks, session: await session };
+    };
+
+    it('backs off exponentially up to the maximum delay', async () => {
+        const { drop, callbacks } = await start(['open'], 6);
+        drop(0);
+        await vi.advanceTimersByTimeAsync(10000);
+        const delays = vi.mocked(callbacks.onreconnecting).mock.calls.map(([, delayMs]) => delayMs);
+        expect(delays).toEqual([100, 200, 400, 800, 1000, 1000]);
+    });
+
+    it('gives up after the maximum number of attempts', async () => {
+        const { drop, connect, callbacks } = await start(['open'], 3);
+        drop(0);
+        await vi.advanceTimersByTimeAsync(10000);
+        expect(connect).toHaveBeenCalledTimes(4);
+        expect(callbacks.onreconnecting).toHaveBeenCalledTimes(3);
+        expect(callbacks.onerror).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries once for an attempt that both rejects and closes', async () => {
+        const { drop, connect, callbacks } = await start(['open', 'reject-then-close', 'open']);
+        drop(0);
+        await vi.advanceTimersByTimeAsync(100);
+        // The failed attempt schedules a single retry, counted once.
+        await vi.advanceTimersByTimeAsync(10);
+        expect(vi.mocked(callbacks.onreconnecting).mock.calls.map(([attempt]) => attempt)).toEqual([1, 2]);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(connect).toHaveBeenCalledTimes(3);
+        expect(callbacks.onreconnected).toHaveBeenCalledTimes(1);
+    });
+
+    it('starts counting again after a successful reconnect', async () => {
+        const { drop, callbacks } = await start(['open', 'reject', 'open', 'open']);
+        drop(0);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(callbacks.onreconnected).toHaveBeenCalledTimes(1);
+        drop(2);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(vi.mocked(callbacks.onreconnecting).mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 1]);
+        expect(callbacks.onreconnected).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not reconnect after the caller closes', async () => {
+        const { drop, connect, callbacks, session } = await start(['open']);
+        drop(0);
+        session.close();
+        await vi.advanceTimersByTimeAsync(10000);
+        expect(connect).toHaveBeenCalledTimes(1);
+        expect(callbacks.onclose).toHaveBeenCalledTimes(1);
+        expect(callbacks.onerror).not.toHaveBeenCalled();
+    });
+
+    it('fails instead of retrying when the first connection never opens', async () => {
+        const connector = createConnector(['reject']);
+        const callbacks = createCallbacks();
+        await expect(connectReconnectingLiveSession(connector.connect, callbacks, BACKOFF)).rejects.toThrow('Failed to fetch');
+        await vi.advanceTimersByTimeAsync(10000);
+        expect(connector.connect).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('buildResumeContext', () => {
+    it('is empty for a conversation that has not started', () => {
+        expect(buildResumeContext([])).toBe('');
+    });
+
+    it('quotes the recent messages but not failed replies', () => {
+        const context = buildResumeContext([
+            createChatMessage('user', 'I had a long day', 'live'),
+            createChatMessage('ai', 'Tell me about it', 'live'),
+            createChatMessage('ai', 'Partial repl', 'live', { error: 'network' }),
+        ]);
+        expect(context).toContain('User: I had a long day');
+        expect(context).toContain('You: Tell me about it');
+        expect(context).not.toContain('Partial repl');
+    });
+});
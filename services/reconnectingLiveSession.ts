@@ -0,0 +1,197 @@
+import { LiveServerMessage } from "@google/genai";
+import { ChatMessage } from "../types";
+import { withoutCrisisMessages } from "./crisisSafety";
+import { LiveSession, LiveSessionCallbacks } from "./providers";
+import { backoffDelay, BackoffOptions, classifyError } from "./serviceErrors";
+
+/**
+ * Keeps a live session going through brief network drops.
+ *
+ * The returned session stays the same object for the whole conversation while the
+ * connection underneath is replaced: when it drops, new connections are attempted
+ * with exponential backoff, and audio or context sent in the meantime is discarded.
+ * Only when every attempt has failed does the caller see an error.
+ */
+
+export interface ReconnectOptions extends BackoffOptions {
+    maxAttempts?: number;
+}
+
+export interface ReconnectingLiveCallbacks {
+    onopen: () => void;
+    onmessage: (message: LiveServerMessage) => void;
+    /** The connection dropped; attempt number `attempt` starts after `delayMs`. */
+    onreconnecting: (attempt: number, delayMs: number) => void;
+    /** A replacement connection is open and accepting audio. */
+    onreconnected: () => void;
+    /** The connection dropped and could not be re-established. */
+    onerror: (error: unknown) => void;
+    /** The session was closed by the caller. */
+    onclose: () => void;
+}
+
+/**
+ * Opens one underlying connection.
+ * @param isResume True when replacing a dropped connection, so the caller can carry the conversation over.
+ */
+export type LiveConnector = (callbacks: LiveSessionCallbacks, isResume: boolean) => Promise<LiveSession>;
+
+/**
+ * Connects through `connect` and transparently reconnects whenever the connection
+ * closes without the caller asking for it.
+ * @returns Resolves once the first connection is established; rejects if it cannot be.
+ */
+export function connectReconnectingLiveSession(
+    connect: LiveConnector,
+    callbacks: ReconnectingLiveCallbacks,
+    options: ReconnectOptions = {},
+): Promise<LiveSession> {
+    const maxAttempts = options.maxAttempts ?? 5;
+    let session: LiveSession | null = null;
+    // Bumped whenever a connection is abandoned, so its late callbacks are ignored.
+    let generation = 0;
+    let attempt = 0;
+    let hasOpened = false;
+    let isClosed = false;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const fail = (error: unknown) => {
+        isClosed = true;
+        callbacks.onerror(error);
+    };
+
+    const handleDrop = (reason: unknown) => {
+        const dropped = session;
+        session = null;
+        generation++;
+        try {
+            dropped?.close();
+        } catch {}
+        // A session that never opened is a failed start, not a drop, and a rejected key or missing access will not fix itself.
+        const kind = classifyError(reason);
+        if (!hasOpened || kind === 'invalid-key' || kind === 'access-denied') {
+            fail(reason);
+            return;
+        }
+        scheduleRetry(reason);
+    };
+
+    const scheduleRetry = (reason: unknown) => {
+        attempt++;
+        if (attempt > maxAttempts) {
+            fail(reason);
+            return;
+        }
+        const delayMs = backoffDelay(attempt, options);
+        callbacks.onreconnecting(attempt, delayMs);
+        retryTimer = setTimeout(() => {
+            retryTimer = null;
+            if (!isClosed) open(true).catch(() => {});
+        }, delayMs);
+    };
+
+    const open = (isResume: boolean): Promise<LiveSession> => {
+        const id = ++generation;
+        const isCurrent = () => id === generation && !isClosed;
+        // A replacement is only usable once it is both open and handed back by `connect`.
+        let isOpen = false;
+        let isReady = false;
+        const announceResume = () => {
+            if (!isOpen || !isReady) return;
+            attempt = 0;
+            callbacks.onreconnected();
+        };
+
+        const pending = connect({
+            onopen: () => {
+                if (!isCurrent()) return;
+                if (!isResume) {
+                    hasOpened = true;
+                    callbacks.onopen();
+                    return;
+                }
+                isOpen = true;
+                announceResume();
+            },
+            onmessage: (message) => {
+                if (isCurrent()) callbacks.onmessage(message);
+            },
+            onerror: (e) => {
+                if (isCurrent()) handleDrop(e);
+            },
+            onclose: (e) => {
+                if (isCurrent()) handleDrop(e);
+            },
+        }, isResume);
+
+        pending.then(
+            (opened) => {
+                if (!isCurrent()) {
+                    opened.close();
+                    return;
+                }
+                session = opened;
+                if (isResume) {
+                    isReady = true;
+                    announceResume();
+                }
+            },
+            (error) => {
+                if (!isCurrent()) return;
+                if (isResume) {
+                    // Retire this attempt so an onerror or onclose it fires as well does not retry a second time.
+                    generation++;
+                    scheduleRetry(error);
+                } else {
+                    isClosed = true;
+                }
+            },
+        );
+        return pending;
+    };
+
+    const close = () => {
+        if (isClosed) return;
+        isClosed = true;
+        generation++;
+        if (retryTimer !== null) clearTimeout(retryTimer);
+        session?.close();
+        session = null;
+        callbacks.onclose();
+    };
+
+    const wrapper: LiveSession = {
+        sendAudio: (audio) => session?.sendAudio(audio),
+        endAudioStream: () => session?.endAudioStream(),
+        sendContext: (text) => session?.sendContext(text),
+        sendEmotionUpdate: (result) => session?.sendEmotionUpdate(result),
+        close,
+    };
+
+    return open(false).then(() => wrapper);
+}
+
+const RESUME_TRANSCRIPT_MESSAGES = 12;
+const RESUME_MESSAGE_MAX_CHARS = 500;
+
+/**
+ * Describes the conversation so far for a replacement connection, which starts
+ * with no memory of what was said. Flagged messages are only summarized by
+ * category, never quoted.
+ */
+export function buildResumeContext(history: ChatMessage[]): string {
+    const crisis = [...new Set(history.slice(-RESUME_TRANSCRIPT_MESSAGES).flatMap(m => m.crisis ?? []))];
+    const recent = withoutCrisisMessages(history).filter(m => m.text.trim() && !m.error).slice(-RESUME_TRANSCRIPT_MESSAGES);
+    if (recent.length === 0 && crisis.length === 0) return '';
+    const lines = recent.map(m => {
+        const text = m.text.length > RESUME_MESSAGE_MAX_CHARS ? `${m.text.slice(0, RESUME_MESSAGE_MAX_CHARS)}...` : m.text;
+        return `${m.sender === 'user' ? 'User' : 'You'}: ${text}`;
+    });
+    return [
+        'The connection dropped for a moment and has just been restored. This is the same conversation, so continue it naturally without greeting the user again.',
+        ...(crisis.length > 0
+            ? [`The user may be in crisis (${crisis.join(', ')}) and has been shown helpline resources. Stay calm and supportive, and encourage them to reach out to those services.`]
+            : []),
+        ...(lines.length > 0 ? ['Most recent messages:', ...lines] : []),
+    ].join('\n');
+}
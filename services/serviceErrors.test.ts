@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ServiceErrorKind } from '../types';
+import { backoffDelay, canRetryError, classifyError, errorMessage, ServiceError, withRetry } from './serviceErrors';
+
+/** An error shaped like the ones the Gemini SDK throws. */
+const apiError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+describe('classifyError', () => {
+    it.each([
+        ['a rejected key', new Error('API key not valid. Please pass a valid API key. [API_KEY_INVALID]'), 'invalid-key'],
+        ['a 400 naming the key', apiError(400, 'API_KEY_INVALID'), 'invalid-key'],
+        ['a 401', apiError(401, 'Request had invalid authentication credentials.'), 'invalid-key'],
+        ['a 429', apiError(429, 'Too many requests'), 'rate-limit'],
+        ['a 403 for an exhausted quota', apiError(403, 'PERMISSION_DENIED: You exceeded your current quota'), 'rate-limit'],
+        ['a 403 for a model the key cannot use', apiError(403, 'PERMISSION_DENIED: Permission denied on resource'), 'access-denied'],
+        ['a 403 without details', apiError(403, ''), 'access-denied'],
+        ['blocked content', new Error('Response was blocked due to SAFETY'), 'safety'],
+        ['a 503', apiError(503, 'The model is overloaded.'), 'model-unavailable'],
+        ['an unknown model', apiError(404, 'models/gemini-x is not found'), 'model-unavailable'],
+        ['a failed fetch', new TypeError('Failed to fetch'), 'network'],
+        ['a blocked microphone', new DOMException('Permission denied', 'NotAllowedError'), 'media-permission'],
+        ['anything else', new Error('Something odd'), 'unknown'],
+    ] as [string, unknown, ServiceErrorKind][])('classifies %s', (_, error, kind) => {
+        expect(classifyError(error)).toBe(kind);
+    });
+
+    it('keeps the kind of an existing ServiceError', () => {
+        expect(classifyError(new ServiceError('safety', 'Blocked.'))).toBe('safety');
+    });
+
+    it('prefers the fallback message only when the failure is unknown', () => {
+        expect(errorMessage(new Error('Something odd'), 'Could not start.')).toBe('Could not start.');
+        expect(errorMessage(apiError(429, ''), 'Could not start.')).toMatch(/rate limit/);
+    });
+
+    it('does not offer a retry for failures the user has to fix', () => {
+        expect((['invalid-key', 'access-denied', 'safety'] as ServiceErrorKind[]).filter(canRetryError)).toEqual([]);
+        expect(canRetryError('network')).toBe(true);
+    });
+});
+
+describe('backoffDelay', () => {
+    it('doubles from the base delay up to the maximum', () => {
+        const delays = [1, 2, 3, 4, 5, 6].map(attempt => backoffDelay(attempt, { baseDelayMs: 100, maxDelayMs: 1000 }));
+        expect(delays).toEqual([100, 200, 400, 800, 1000, 1000]);
+    });
+
+    it('stays within its defaults', () => {
+        expect(backoffDelay(1)).toBe(500);
+        expect(backoffDelay(50)).toBe(8000);
+    });
+});
+
+describe('withRetry', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('repeats a transient failure until the request succeeds', async () => {
+        const request = vi.fn()
+            .mockRejectedValueOnce(apiError(503, 'UNAVAILABLE'))
+            .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+            .mockResolvedValue('ok');
+        const result = withRetry(request, { baseDelayMs: 100 });
+        await vi.advanceTimersByTimeAsync(99);
+        expect(request).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1 + 200);
+        await expect(result).resolves.toBe('ok');
+        expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it.each([
+        ['a rejected key', apiError(401, '')],
+        ['missing access', apiError(403, 'PERMISSION_DENIED')],
+        ['blocked content', new Error('SAFETY')],
+        ['an unknown failure', new Error('Something odd')],
+    ])('does not repeat %s', async (_, error) => {
+        const request = vi.fn().mockRejectedValue(error);
+        await expect(withRetry(request)).rejects.toBeInstanceOf(ServiceError);
+        expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up after the maximum number of attempts with the last error', async () => {
+        const request = vi.fn().mockRejectedValue(apiError(429, 'RESOURCE_EXHAUSTED'));
+        const result = withRetry(request, { maxAttempts: 3, baseDelayMs: 100 });
+        const settled = expect(result).rejects.toMatchObject({ kind: 'rate-limit' });
+        await vi.advanceTimersByTimeAsync(10000);
+        await settled;
+        expect(request).toHaveBeenCalledTimes(3);
+    });
+});
@@ -0,0 +1,142 @@
+import { ServiceErrorKind } from "../types";
+
+/**
+ * Classifies failures from the AI provider and the browser's media APIs.
+ *
+ * Providers throw `ServiceError`s, and anything else that reaches the UI goes
+ * through `toServiceError`, so the app decides what to show and whether to retry
+ * from the error kind rather than from message text.
+ */
+
+export class ServiceError extends Error {
+    readonly kind: ServiceErrorKind;
+    readonly cause: unknown;
+
+    constructor(kind: ServiceErrorKind, message: string, cause?: unknown) {
+        super(message);
+        this.name = 'ServiceError';
+        this.kind = kind;
+        this.cause = cause;
+    }
+}
+
+/** Kinds that usually clear up on their own, so the request is worth repeating automatically. */
+const TRANSIENT_KINDS: ServiceErrorKind[] = ['rate-limit', 'network', 'model-unavailable'];
+
+export function isTransientError(kind: ServiceErrorKind): boolean {
+    return TRANSIENT_KINDS.includes(kind);
+}
+
+/** Whether offering the user a retry button makes sense; a bad key, missing access or blocked content needs them to act first. */
+export function canRetryError(kind: ServiceErrorKind): boolean {
+    return kind !== 'invalid-key' && kind !== 'access-denied' && kind !== 'safety';
+}
+
+export const ERROR_MESSAGES: Record<ServiceErrorKind, string> = {
+    'invalid-key': 'Your Gemini API key was rejected. Enter a valid key to continue.',
+    'access-denied': 'Your Gemini API key is not allowed to use this model or feature. Check the key\'s restrictions and project settings.',
+    'rate-limit': 'The Gemini API rate limit or quota has been reached. Wait a minute and try again.',
+    safety: 'The reply was blocked by the safety filters. Try rephrasing your message.',
+    network: 'Could not reach the Gemini API. Check your internet connection and try again.',
+    'model-unavailable': 'The Gemini model is temporarily unavailable. Please try again shortly.',
+    'media-permission': 'Camera or microphone access is blocked or the device is unavailable. Allow access in your browser settings and try again.',
+    unknown: 'Sorry, an error occurred. Please try again.',
+};
+
+const MEDIA_ERROR_NAMES = ['NotAllowedError', 'SecurityError', 'NotFoundError', 'NotReadableError', 'OverconstrainedError', 'AbortError'];
+
+const KEY_REJECTED_PATTERN = /API key not valid|API_KEY_INVALID|API key not found|API key expired|Requested entity was not found\./i;
+const QUOTA_PATTERN = /RESOURCE_EXHAUSTED|quota|rate limit/i;
+
+// Close codes the browser uses when the socket dropped rather than being closed on purpose.
+const ABNORMAL_CLOSE_CODES = [1006, 1012, 1013, 1014];
+
+const describeCause = (error: unknown): string => {
+    if (typeof error === 'string') return error;
+    if (typeof CloseEvent !== 'undefined' && error instanceof CloseEvent) return error.reason;
+    if (typeof ErrorEvent !== 'undefined' && error instanceof ErrorEvent) return error.message ?? '';
+    if (error instanceof Error) return error.message;
+    try {
+        return JSON.stringify(error) ?? '';
+    } catch {
+        return '';
+    }
+};
+
+export function classifyError(error: unknown): ServiceErrorKind {
+    if (error instanceof ServiceError) return error.kind;
+    if (error instanceof DOMException && MEDIA_ERROR_NAMES.includes(error.name)) return 'media-permission';
+
+    const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : null;
+    const text = describeCause(error);
+
+    // The API reports a bad key under several statuses, so the message decides before the status does.
+    if (KEY_REJECTED_PATTERN.test(text) || status === 401 || /UNAUTHENTICATED/.test(text)) return 'invalid-key';
+    // A quota can be reported as a 403 as well as a 429; either way the key itself is fine.
+    if (status === 429 || QUOTA_PATTERN.test(text)) return 'rate-limit';
+    // Any other 403 is a valid key without access to this model, feature or region.
+    if (status === 403 || /PERMISSION_DENIED/.test(text)) return 'access-denied';
+    if (/\b(SAFETY|PROHIBITED_CONTENT|BLOCKLIST|SPII)\b/.test(text)) return 'safety';
+    if ((status !== null && status >= 500) || status === 404 || /UNAVAILABLE|overloaded|DEADLINE_EXCEEDED|INTERNAL/.test(text)) return 'model-unavailable';
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return 'network';
+    if (error instanceof TypeError && /fetch|network/i.test(text)) return 'network';
+    if (/network|Failed to fetch|timed? ?out|ECONNRESET/i.test(text)) return 'network';
+    if (typeof CloseEvent !== 'undefined' && error instanceof CloseEvent && ABNORMAL_CLOSE_CODES.includes(error.code)) return 'network';
+    if (typeof ErrorEvent !== 'undefined' && error instanceof ErrorEvent) return 'network';
+    return 'unknown';
+}
+
+/**
+ * The message to show for `error`.
+ * @param fallback Used instead of the generic text when the failure could not be classified.
+ */
+export function errorMessage(error: unknown, fallback?: string): string {
+    const kind = classifyError(error);
+    if (kind === 'unknown' && fallback) return fallback;
+    return error instanceof ServiceError ? error.message : ERROR_MESSAGES[kind];
+}
+
+export function toServiceError(error: unknown): ServiceError {
+    if (error instanceof ServiceError) return error;
+    const kind = classifyError(error);
+    return new ServiceError(kind, ERROR_MESSAGES[kind], error);
+}
+
+export interface BackoffOptions {
+    /** Delay before the first retry; doubles on each further attempt. */
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+}
+
+/** @param attempt 1 for the first retry. */
+export function backoffDelay(attempt: number, options: BackoffOptions = {}): number {
+    const baseDelayMs = options.baseDelayMs ?? 500;
+    const maxDelayMs = options.maxDelayMs ?? 8000;
+    return Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+}
+
+export interface RetryOptions extends BackoffOptions {
+    /** Total tries, including the first. */
+    maxAttempts?: number;
+}
+
+/**
+ * Runs `request`, repeating it with exponential backoff while it fails with a
+ * transient error.
+ * @throws The last failure as a `ServiceError`.
+ */
+export async function withRetry<T>(request: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const maxAttempts = options.maxAttempts ?? 3;
+    const backoff = { baseDelayMs: options.baseDelayMs ?? 1000, maxDelayMs: options.maxDelayMs };
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await request();
+        } catch (error) {
+            const serviceError = toServiceError(error);
+            if (attempt >= maxAttempts || !isTransientError(serviceError.kind)) throw serviceError;
+            const delayMs = backoffDelay(attempt, backoff);
+            console.warn(`Request failed (${serviceError.kind}); retrying in ${delayMs}ms.`);
+            await new Promise(resolve => setTimeout(resolve, delayMs));
+        }
+    }
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { createChatMessage } from '../utils/chatMessage';
+import { exportSessionJson, exportSessionMarkdown, parseSessionExport, SESSION_EXPORT_FORMAT, SESSION_EXPORT_VERSION, withFreshAudioIds } from './sessionExport';
+
+const fusion = {
+    emotion: 'Sad',
+    confidence: 0.6,
+    scores: { Happy: 0, Sad: 0.6, Angry: 0, Neutral: 0.4, Surprised: 0, Calm: 0 },
+    modalities: { text: { Happy: 0, Sad: 1, Angry: 0, Neutral: 0, Surprised: 0, Calm: 0 } },
+};
+
+const message = (overrides: Record<string, unknown> = {}) => ({
+    id: 'm1', sender: 'user', text: 'Hello', timestamp: 1000, origin: 'typed', ...overrides,
+});
+
+const exportOf = (fields: Record<string, unknown>) => JSON.stringify({
+    format: SESSION_EXPORT_FORMAT, version: SESSION_EXPORT_VERSION, exportedAt: '2024-01-01T00:00:00.000Z', messages: [], timeline: [], ...fields,
+});
+
+describe('parseSessionExport', () => {
+    it('keeps well-formed messages and timeline entries', () => {
+        const session = parseSessionExport(exportOf({
+            messages: [message({ emotion: fusion, crisis: ['abuse'], error: 'network' })],
+            timeline: [{ timestamp: 1000, fusion }],
+        }));
+        expect(session.messages[0]).toMatchObject({ emotion: fusion, crisis: ['abuse'], error: 'network' });
+        expect(session.timeline).toEqual([{ timestamp: 1000, fusion }]);
+    });
+
+    it('rejects files that are not session exports', () => {
+        expect(() => parseSessionExport('not json')).toThrow('not valid JSON');
+        expect(() => parseSessionExport(JSON.stringify({ format: 'other' }))).toThrow('not a session export');
+        expect(() => parseSessionExport(exportOf({ version: SESSION_EXPORT_VERSION + 1 }))).toThrow('newer version');
+    });
+
+    it('rejects messages missing required fields', () => {
+        expect(() => parseSessionExport(exportOf({ messages: [message({ sender: 'bot' })] }))).toThrow('malformed messages');
+        expect(() => parseSessionExport(exportOf({ messages: [null] }))).toThrow('malformed messages');
+    });
+
+    it.each([
+        ['an empty object', {}],
+        ['an unknown emotion', { ...fusion, emotion: 'Bored' }],
+        ['non-numeric scores', { ...fusion, scores: { Sad: 'high' } }],
+        ['no scores', { ...fusion, scores: {} }],
+    ])('strips an emotion that is %s', (_, emotion) => {
+        const session = parseSessionExport(exportOf({ messages: [message({ emotion })] }));
+        expect(session.messages[0].emotion).toBeUndefined();
+    });
+
+    it('drops malformed modalities but keeps the fused emotion', () => {
+        const session = parseSessionExport(exportOf({
+            messages: [
+                message({ emotion: { ...fusion, modalities: null } }),
+                message({ id: 'm2', emotion: { ...fusion, modalities: { text: {}, face: fusion.scores } } }),
+            ],
+        }));
+        expect(session.messages[0].emotion?.modalities).toEqual({});
+        expect(Object.keys(session.messages[1].emotion?.modalities ?? {})).toEqual(['face']);
+    });
+
+    it('fills in missing emotions with zero', () => {
+        const session = parseSessionExport(exportOf({ messages: [message({ emotion: { ...fusion, scores: { Sad: 1 } } })] }));
+        expect(session.messages[0].emotion?.scores).toEqual({ Happy: 0, Sad: 1, Angry: 0, Neutral: 0, Surprised: 0, Calm: 0 });
+    });
+
+    it('drops malformed optional details', () => {
+        const session = parseSessionExport(exportOf({
+            messages: [message({ voice: 3, interrupted: 'yes', crisis: ['abuse', 'boredom'], error: 'toString' })],
+        }));
+        expect(session.messages[0]).toEqual({ ...message(), crisis: ['abuse'] });
+    });
+
+    it('skips timeline entries without a usable fusion result', () => {
+        const session = parseSessionExport(exportOf({
+            timeline: [{ timestamp: 1000, fusion }, { timestamp: 2000, fusion: { emotion: 'Sad' } }, { fusion }],
+        }));
+        expect(session.timeline).toEqual([{ timestamp: 1000, fusion }]);
+    });
+
+    it('produces messages the markdown export can describe', () => {
+        const session = parseSessionExport(exportOf({ messages: [message({ emotion: { ...fusion, modalities: { text: {} } } })] }));
+        expect(() => exportSessionMarkdown(session.messages, session.timeline, null)).not.toThrow();
+    });
+});
+
+describe('exportSessionJson', () => {
+    it('masks the API key in use wherever it was pasted', () => {
+        const pasted = createChatMessage('user', 'my key is custom-key-123456, does it work?', 'typed');
+        const json = exportSessionJson([pasted], [], 'custom-key-123456');
+        expect(json).not.toContain('custom-key-123456');
+        expect(JSON.parse(json).messages[0].text).toBe('my key is cust…3456, does it work?');
+    });
+});
+
+describe('withFreshAudioIds', () => {
+    const clip = { sampleRate: 24000, rate: 1, gain: 1, data: 'AAAA' };
+
+    it('moves every clip to a new ID and points its messages at it', () => {
+        let next = 0;
+        const session = withFreshAudioIds(parseSessionExport(exportOf({
+            messages: [message({ id: 'm1', audioId: 'a1' }), message({ id: 'm2', audioId: 'a2' }), message({ id: 'm3' })],
+            audio: { a1: clip, a2: clip },
+        })), () => `new-${++next}`);
+        expect(session.messages.map(m => m.audioId)).toEqual(['new-1', 'new-2', undefined]);
+        expect(Object.keys(session.audio ?? {})).toEqual(['new-1', 'new-2']);
+    });
+
+    it('drops references to clips that were not exported', () => {
+        const session = withFreshAudioIds(parseSessionExport(exportOf({ messages: [message({ audioId: 'a1' })] })));
+        expect(session.messages[0]).not.toHaveProperty('audioId');
+    });
+});
@@ -0,0 +1,278 @@
+import {
+    ChatMessage, CrisisCategory, EmotionModality, EmotionScores, EmotionTimelineEntry, FusedEmotion, FusionResult, ServiceErrorKind,
+} from '../types';
+import { StoredAudioClip } from './sessionStore';
+import { decode, encode } from '../utils/audioUtils';
+import { createEmptyScores, EMOTIONS } from '../utils/emotionScores';
+import { redactSecrets } from './apiKeyManager';
+import { ERROR_MESSAGES } from './serviceErrors';
+
+/**
+ * Session export and import.
+ *
+ * JSON exports carry the full message list and emotion timeline and can be loaded
+ * back into the app for review, optionally with the speech of each reply embedded. Markdown exports are a readable transcript annotated
+ * with the detected mood at each message.
+ */
+
+export type ExportFormat = 'json' | 'markdown';
+
+export const SESSION_EXPORT_FORMAT = 'multimodal-emotional-assistant/session';
+export const SESSION_EXPORT_VERSION = 1;
+
+/** A reply's speech as base64 16-bit mono PCM. */
+export interface ExportedAudioClip {
+    sampleRate: number;
+    rate: number;
+    gain: number;
+    data: string;
+}
+
+export interface SessionExport {
+    format: typeof SESSION_EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    messages: ChatMessage[];
+    timeline: EmotionTimelineEntry[];
+    /** Reply audio keyed by `ChatMessage.audioId`; only present when exported with audio. */
+    audio?: Record<string, ExportedAudioClip>;
+}
+
+export function toExportedAudioClip({ sampleRate, rate, gain, pcm }: StoredAudioClip): ExportedAudioClip {
+    return { sampleRate, rate, gain, data: encode(new Uint8Array(pcm)) };
+}
+
+export function fromExportedAudioClip(id: string, { sampleRate, rate, gain, data }: ExportedAudioClip): StoredAudioClip {
+    return { id, sampleRate, rate, gain, pcm: decode(data).buffer as ArrayBuffer, createdAt: Date.now() };
+}
+
+/** @param apiKey The key in use, masked wherever it was pasted into a message. */
+export function buildSessionExport(
+    messages: ChatMessage[],
+    timeline: EmotionTimelineEntry[],
+    apiKey: string | null,
+    audio?: Record<string, ExportedAudioClip>,
+): SessionExport {
+    return {
+        format: SESSION_EXPORT_FORMAT,
+        version: SESSION_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        // Drop the in-flight '...' placeholder of a reply that is still generating, and never export a pasted API key.
+        messages: messages
+            .filter(m => !(m.sender === 'ai' && m.text === '...'))
+            .map(m => ({ ...m, text: redactSecrets(m.text, apiKey) })),
+        timeline,
+        ...(audio && { audio }),
+    };
+}
+
+export function exportSessionJson(
+    messages: ChatMessage[],
+    timeline: EmotionTimelineEntry[],
+    apiKey: string | null,
+    audio?: Record<string, ExportedAudioClip>,
+): string {
+    return JSON.stringify(buildSessionExport(messages, timeline, apiKey, audio), null, 2);
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const describeEmotion = (fusion: FusionResult): string => {
+    const modalities = Object.entries(fusion.modalities)
+        .map(([modality, scores]) => {
+            const [top, score] = Object.entries(scores).reduce((a, b) => (b[1] > a[1] ? b : a));
+            return `${modality} ${top} ${formatPercent(score)}`;
+        });
+    const detail = modalities.length ? ` (${modalities.join(', ')})` : '';
+    return `${fusion.emotion} ${formatPercent(fusion.confidence)}${detail}`;
+};
+
+export function exportSessionMarkdown(messages: ChatMessage[], timeline: EmotionTimelineEntry[], apiKey: string | null): string {
+    const session = buildSessionExport(messages, timeline, apiKey);
+    const lines: string[] = [
+        '# Session Transcript',
+        '',
+        `Exported ${new Date(session.exportedAt).toLocaleString()}`,
+    ];
+    if (session.messages.length) {
+        lines.push(`Started ${new Date(session.messages[0].timestamp).toLocaleString()} · ${session.messages.length} messages`);
+    }
+    if (timeline.length) {
+        const counts = new Map<string, number>();
+        timeline.forEach(entry => counts.set(entry.fusion.emotion, (counts.get(entry.fusion.emotion) ?? 0) + 1));
+        const breakdown = [...counts.entries()]
+            .sort((a, b) => b[1] - a[1])
+            .map(([emotion, count]) => `${emotion} ${formatPercent(count / timeline.length)}`)
+            .join(', ');
+        lines.push(`Mood over the session: ${breakdown}`);
+    }
+    lines.push('');
+
+    for (const message of session.messages) {
+        const speaker = message.sender === 'user' ? 'You' : 'Assistant';
+        const annotations = [formatTime(message.timestamp), message.origin];
+        if (message.voice) annotations.push(`voice: ${message.voice}`);
+        if (message.interrupted) annotations.push('interrupted');
+        if (message.crisis?.length) annotations.push(`crisis: ${message.crisis.join(', ')}`);
+        if (message.error) annotations.push(`failed: ${message.error}`);
+        lines.push(`**${speaker}** _(${annotations.join(' · ')})_`);
+        if (message.emotion) {
+            lines.push(`Mood: ${describeEmotion(message.emotion)}`);
+        }
+        lines.push('');
+        lines.push(...message.text.split('\n').map(line => `> ${line}`));
+        lines.push('');
+    }
+    return lines.join('\n');
+}
+
+const FUSED_EMOTIONS: FusedEmotion[] = ['Happy', 'Sad', 'Angry', 'Neutral', 'Surprised'];
+const MODALITIES: EmotionModality[] = ['face', 'voice', 'text'];
+const CRISIS_CATEGORIES: CrisisCategory[] = ['self-harm', 'suicidal-ideation', 'abuse'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isFusedEmotion = (value: unknown): value is FusedEmotion => FUSED_EMOTIONS.includes(value as FusedEmotion);
+
+const isScore = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/** Every emotion as a non-negative number; missing ones count as zero. Null when there is no score at all. */
+const normalizeImportedScores = (value: unknown): EmotionScores | null => {
+    if (!isRecord(value)) return null;
+    const scores = createEmptyScores();
+    let hasScore = false;
+    for (const emotion of EMOTIONS) {
+        if (value[emotion] === undefined) continue;
+        if (!isScore(value[emotion])) return null;
+        scores[emotion] = value[emotion];
+        hasScore = true;
+    }
+    return hasScore ? scores : null;
+};
+
+/** A usable fusion result, dropping modalities that are malformed, or null when the result itself is. */
+const normalizeImportedFusion = (value: unknown): FusionResult | null => {
+    if (!isRecord(value) || !isFusedEmotion(value.emotion) || !isScore(value.confidence)) return null;
+    const scores = normalizeImportedScores(value.scores);
+    if (!scores) return null;
+    const modalities: FusionResult['modalities'] = {};
+    if (isRecord(value.modalities)) {
+        for (const modality of MODALITIES) {
+            const modalityScores = normalizeImportedScores(value.modalities[modality]);
+            if (modalityScores) modalities[modality] = modalityScores;
+        }
+    }
+    return { emotion: value.emotion, confidence: Math.min(1, value.confidence), scores, modalities };
+};
+
+/**
+ * A message with its required fields checked, or null. Optional details that are
+ * malformed are dropped rather than failing the whole import.
+ */
+const normalizeImportedMessage = (value: unknown): ChatMessage | null => {
+    if (!isRecord(value)
+        || typeof value.id !== 'string'
+        || (value.sender !== 'user' && value.sender !== 'ai')
+        || typeof value.text !== 'string'
+        || typeof value.timestamp !== 'number'
+        || (value.origin !== 'typed' && value.origin !== 'live')) {
+        return null;
+    }
+    const message: ChatMessage = { id: value.id, sender: value.sender, text: value.text, timestamp: value.timestamp, origin: value.origin };
+    const emotion = value.emotion === undefined ? null : normalizeImportedFusion(value.emotion);
+    if (emotion) message.emotion = emotion;
+    if (typeof value.voice === 'string') message.voice = value.voice;
+    if (typeof value.interrupted === 'boolean') message.interrupted = value.interrupted;
+    if (typeof value.audioId === 'string') message.audioId = value.audioId;
+    if (Array.isArray(value.crisis)) {
+        const crisis = value.crisis.filter((category: unknown): category is CrisisCategory => CRISIS_CATEGORIES.includes(category as CrisisCategory));
+        if (crisis.length) message.crisis = crisis;
+    }
+    if (typeof value.error === 'string' && Object.keys(ERROR_MESSAGES).includes(value.error)) message.error = value.error as ServiceErrorKind;
+    return message;
+};
+
+const isExportedAudioClip = (value: unknown): value is ExportedAudioClip =>
+    isRecord(value)
+    && typeof value.sampleRate === 'number'
+    && typeof value.rate === 'number'
+    && typeof value.gain === 'number'
+    && typeof value.data === 'string';
+
+const normalizeImportedTimelineEntry = (value: unknown): EmotionTimelineEntry | null => {
+    if (!isRecord(value) || typeof value.timestamp !== 'number') return null;
+    const fusion = normalizeImportedFusion(value.fusion);
+    return fusion && { timestamp: value.timestamp, fusion };
+};
+
+/**
+ * Parses and validates a JSON session export.
+ * @throws Error with a user-facing message if the content is not a valid export.
+ */
+export function parseSessionExport(content: string): SessionExport {
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch {
+        throw new Error("The selected file is not valid JSON.");
+    }
+    if (!isRecord(data) || data.format !== SESSION_EXPORT_FORMAT) {
+        throw new Error("The selected file is not a session export from this app.");
+    }
+    if (typeof data.version !== 'number' || data.version > SESSION_EXPORT_VERSION) {
+        throw new Error("This session export was created by a newer version of the app.");
+    }
+    const messages = Array.isArray(data.messages) ? data.messages.map(normalizeImportedMessage) : null;
+    if (!messages || !messages.every((message): message is ChatMessage => message !== null)) {
+        throw new Error("The session export contains malformed messages.");
+    }
+    // The timeline is a chart of samples, so a damaged one is skipped rather than rejecting the file.
+    const timeline = Array.isArray(data.timeline)
+        ? data.timeline.map(normalizeImportedTimelineEntry).filter((entry): entry is EmotionTimelineEntry => entry !== null)
+        : [];
+    // Audio is optional; a damaged clip only loses that reply's playback.
+    const audio = isRecord(data.audio)
+        ? Object.fromEntries(Object.entries(data.audio).filter((entry): entry is [string, ExportedAudioClip] => isExportedAudioClip(entry[1])))
+        : undefined;
+    return {
+        format: SESSION_EXPORT_FORMAT,
+        version: data.version,
+        exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+        messages,
+        timeline,
+        audio,
+    };
+}
+
+/**
+ * Gives every embedded clip a new ID and points the messages at it, so an
+ * imported session never shares clips with the one it was exported from and
+ * deleting either leaves the other's audio alone. Messages whose clip is not
+ * embedded lose their `audioId` for the same reason.
+ */
+export function withFreshAudioIds(session: SessionExport, createId: () => string = () => crypto.randomUUID()): SessionExport {
+    const newIds = new Map(Object.keys(session.audio ?? {}).map(id => [id, createId()]));
+    const messages = session.messages.map(message => {
+        if (!message.audioId) return message;
+        const { audioId, ...rest } = message;
+        const newId = newIds.get(audioId);
+        return newId ? { ...rest, audioId: newId } : rest;
+    });
+    const audio = session.audio && Object.fromEntries(Object.entries(session.audio).map(([id, clip]) => [newIds.get(id)!, clip]));
+    return { ...session, messages, audio };
+}
+
+export function downloadFile(content: string | Blob, filename: string, mimeType: string) {
+    const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,135 @@
+import { ChatMessage, EmotionTimelineEntry } from '../types';
+
+/**
+ * Local session history and the audio of spoken replies, stored in IndexedDB.
+ * Nothing here leaves the browser.
+ */
+
+export interface StoredSession {
+    id: string;
+    title: string;
+    // True once the user renamed the session; stops the title following the first message.
+    hasCustomTitle: boolean;
+    createdAt: number;
+    updatedAt: number;
+    messages: ChatMessage[];
+    timeline: EmotionTimelineEntry[];
+}
+
+/** The synthesized speech of one AI message, as 16-bit mono PCM. */
+export interface StoredAudioClip {
+    id: string;
+    sampleRate: number;
+    pcm: ArrayBuffer;
+    /** Playback rate and gain the reply was spoken with. */
+    rate: number;
+    gain: number;
+    createdAt: number;
+}
+
+export type SessionSummary = Pick<StoredSession, 'id' | 'title' | 'createdAt' | 'updatedAt'> & { messageCount: number };
+
+const DB_NAME = 'emotional-assistant';
+const DB_VERSION = 2;
+const SESSIONS_STORE = 'sessions';
+const AUDIO_STORE = 'audio';
+const LAST_SESSION_KEY = 'last-session-id';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+                    db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+                    db.createObjectStore(AUDIO_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry if opening failed (e.g. private browsing restrictions).
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    return requestToPromise(run(transaction.objectStore(storeName)));
+}
+
+export function createSessionTitle(messages: ChatMessage[], createdAt: number): string {
+    const firstUserMessage = messages.find(m => m.sender === 'user' && m.text.trim());
+    if (firstUserMessage) {
+        const text = firstUserMessage.text.trim().replace(/\s+/g, ' ');
+        return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+    }
+    return `Session ${new Date(createdAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`;
+}
+
+export async function saveSession(session: StoredSession): Promise<void> {
+    await withStore(SESSIONS_STORE, 'readwrite', store => store.put(session));
+}
+
+export async function loadSession(id: string): Promise<StoredSession | null> {
+    const session = await withStore<StoredSession | undefined>(SESSIONS_STORE, 'readonly', store => store.get(id));
+    return session ?? null;
+}
+
+export async function listSessions(): Promise<SessionSummary[]> {
+    const sessions = await withStore<StoredSession[]>(SESSIONS_STORE, 'readonly', store => store.getAll());
+    return sessions
+        .map(({ id, title, createdAt, updatedAt, messages }) => ({ id, title, createdAt, updatedAt, messageCount: messages.length }))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function renameSession(id: string, title: string): Promise<void> {
+    const session = await loadSession(id);
+    if (!session) return;
+    await saveSession({ ...session, title, hasCustomTitle: true, updatedAt: Date.now() });
+}
+
+export async function deleteSession(id: string): Promise<void> {
+    const session = await loadSession(id);
+    await withStore(SESSIONS_STORE, 'readwrite', store => store.delete(id));
+    if (getLastSessionId() === id) {
+        localStorage.removeItem(LAST_SESSION_KEY);
+    }
+    const audioIds = session?.messages.flatMap(m => m.audioId ? [m.audioId] : []) ?? [];
+    await Promise.all(audioIds.map(audioId => withStore(AUDIO_STORE, 'readwrite', store => store.delete(audioId))));
+}
+
+export async function saveAudioClip(clip: StoredAudioClip): Promise<void> {
+    await withStore(AUDIO_STORE, 'readwrite', store => store.put(clip));
+}
+
+export async function loadAudioClip(id: string): Promise<StoredAudioClip | null> {
+    const clip = await withStore<StoredAudioClip | undefined>(AUDIO_STORE, 'readonly', store => store.get(id));
+    return clip ?? null;
+}
+
+export function getLastSessionId(): string | null {
+    return localStorage.getItem(LAST_SESSION_KEY);
+}
+
+export function setLastSessionId(id: string) {
+    localStorage.setItem(LAST_SESSION_KEY, id);
+}
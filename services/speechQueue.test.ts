@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createSpeechQueue } from './speechQueue';
+
+/** A synthesizer whose requests stay pending until the test answers them. */
+const createSynthesizer = () => {
+    const requests = new Map<string, { resolve: (audio: string | null) => void; reject: (error: unknown) => void }>();
+    const synthesize = vi.fn((text: string) => new Promise<string | null>((resolve, reject) => {
+        requests.set(text, { resolve, reject });
+    }));
+    const pending = () => [...requests.keys()];
+    const answer = async (text: string) => {
+        requests.get(text)!.resolve(`audio:${text}`);
+        requests.delete(text);
+        await flush();
+    };
+    const fail = async (text: string) => {
+        requests.get(text)!.reject(new Error('quota'));
+        requests.delete(text);
+        await flush();
+    };
+    return { synthesize, pending, answer, fail };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const setup = () => {
+    const synthesizer = createSynthesizer();
+    const played: string[] = [];
+    const onError = vi.fn();
+    const queue = createSpeechQueue({
+        synthesize: synthesizer.synthesize,
+        play: async audio => { played.push(audio); },
+        onError,
+    });
+    return { ...synthesizer, played, onError, queue };
+};
+
+describe('createSpeechQueue', () => {
+    it('synthesizes the next sentence ahead but no further', async () => {
+        const { queue, pending, answer } = setup();
+        ['One.', 'Two.', 'Three.', 'Four.'].forEach(queue.enqueue);
+        await flush();
+        expect(pending()).toEqual(['One.', 'Two.']);
+
+        await answer('One.');
+        expect(pending()).toEqual(['Two.', 'Three.']);
+        await answer('Two.');
+        expect(pending()).toEqual(['Three.', 'Four.']);
+    });
+
+    it('plays in queue order whichever request returns first', async () => {
+        const { queue, answer, played } = setup();
+        ['One.', 'Two.', 'Three.'].forEach(queue.enqueue);
+        await flush();
+        await answer('Two.');
+        expect(played).toEqual([]);
+        await answer('One.');
+        await answer('Three.');
+        expect(played).toEqual(['audio:One.', 'audio:Two.', 'audio:Three.']);
+        await expect(queue.drain()).resolves.toBe(true);
+    });
+
+    it('stops requesting and playing once cancelled', async () => {
+        const { queue, synthesize, answer, played } = setup();
+        ['One.', 'Two.', 'Three.'].forEach(queue.enqueue);
+        await flush();
+        queue.cancel();
+        await answer('One.');
+        await answer('Two.');
+        queue.enqueue('Four.');
+        await flush();
+        expect(played).toEqual([]);
+        expect(synthesize).toHaveBeenCalledTimes(2);
+        await expect(queue.drain()).resolves.toBe(false);
+    });
+
+    it('gives up on the rest of the reply after a failed sentence', async () => {
+        const { queue, synthesize, answer, fail, played, onError } = setup();
+        ['One.', 'Two.', 'Three.'].forEach(queue.enqueue);
+        await flush();
+        await fail('One.');
+        await answer('Two.');
+        expect(onError).toHaveBeenCalledTimes(1);
+        expect(played).toEqual([]);
+        expect(synthesize).toHaveBeenCalledTimes(2);
+        await expect(queue.drain()).resolves.toBe(false);
+    });
+});
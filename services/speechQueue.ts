@@ -0,0 +1,58 @@
+/**
+ * Speaks a reply sentence by sentence while it is still being generated.
+ *
+ * While one sentence is being synthesized or played, the next is synthesized ahead of
+ * time so it is usually ready when its turn comes; further sentences wait, so a long
+ * reply does not send every request at once. Playback always follows queue order
+ * regardless of which request returns first.
+ */
+
+export interface SpeechQueueOptions {
+    synthesize: (text: string) => Promise<string | null>;
+    /** Schedules base64 PCM for playback; resolves once it is scheduled, not once it has played. */
+    play: (audio: string) => Promise<void>;
+    onError: (error: unknown) => void;
+}
+
+export type SpeechQueue = ReturnType<typeof createSpeechQueue>;
+
+// Sentences synthesizing at once: the one due to play next and the one after it.
+const MAX_IN_FLIGHT = 2;
+
+export function createSpeechQueue({ synthesize, play, onError }: SpeechQueueOptions) {
+    let tail: Promise<void> = Promise.resolve();
+    // The turns of the last MAX_IN_FLIGHT sentences, oldest first.
+    let recentTurns: Promise<void>[] = [];
+    let isStopped = false;
+
+    const enqueue = (text: string) => {
+        if (isStopped) return;
+        // Start once the sentence MAX_IN_FLIGHT places ahead has been scheduled.
+        const slot = recentTurns.length < MAX_IN_FLIGHT ? Promise.resolve() : recentTurns[0];
+        const audio = slot.then(() => (isStopped ? null : synthesize(text)));
+        // Rejections are handled when this sentence's turn comes up.
+        audio.catch(() => {});
+        tail = tail.then(async () => {
+            if (isStopped) return;
+            try {
+                const data = await audio;
+                if (data && !isStopped) await play(data);
+            } catch (error) {
+                // A reply with a missing sentence sounds broken, so give up on the rest.
+                isStopped = true;
+                onError(error);
+            }
+        });
+        recentTurns = [...recentTurns, tail].slice(-MAX_IN_FLIGHT);
+    };
+
+    return {
+        enqueue,
+        /**
+         * Resolves once every queued sentence has been scheduled or dropped: true when
+         * all of them were scheduled, false when the queue was cancelled or failed.
+         */
+        drain: () => tail.then(() => !isStopped),
+        cancel: () => { isStopped = true; },
+    };
+}
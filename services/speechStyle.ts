@@ -0,0 +1,68 @@
+import { FusedEmotion } from '../types';
+
+/**
+ * How spoken replies are delivered for each detected emotion.
+ *
+ * The style prompt is sent with the TTS request so the voice itself changes its
+ * delivery; rate and gain are applied locally in the Web Audio output graph, so
+ * they also work for providers that ignore the prompt.
+ */
+
+export interface SpeechStyle {
+    /** Delivery instruction prefixed to the text, e.g. "Say gently". Empty for none. */
+    prompt: string;
+    /** Playback rate; 1 is the synthesized speed. */
+    rate: number;
+    /** Output gain; 1 is the synthesized volume. */
+    gain: number;
+}
+
+export type SpeechStyleTable = Record<FusedEmotion, SpeechStyle>;
+
+// Kept narrow because changing the playback rate also shifts the pitch.
+export const SPEECH_RATE_RANGE = { min: 0.8, max: 1.2 };
+export const SPEECH_GAIN_RANGE = { min: 0.5, max: 1.2 };
+
+export const DEFAULT_SPEECH_STYLES: SpeechStyleTable = {
+    Happy: { prompt: 'Say warmly and brightly', rate: 1.05, gain: 1 },
+    Sad: { prompt: 'Say slowly, softly and gently', rate: 0.9, gain: 0.8 },
+    Angry: { prompt: 'Say in a calm, steady, reassuring voice', rate: 0.95, gain: 0.85 },
+    Neutral: { prompt: '', rate: 1, gain: 1 },
+    Surprised: { prompt: 'Say with gentle curiosity', rate: 1, gain: 0.95 },
+};
+
+const STYLES_STORAGE_KEY = 'speech-styles';
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(max, Math.max(min, value));
+
+/** @returns The saved table, with defaults for any emotion that was never changed. */
+export function getSpeechStyles(): SpeechStyleTable {
+    try {
+        const stored: Partial<SpeechStyleTable> = JSON.parse(localStorage.getItem(STYLES_STORAGE_KEY) ?? '{}');
+        const table = { ...DEFAULT_SPEECH_STYLES };
+        for (const emotion of Object.keys(table) as FusedEmotion[]) {
+            const style = stored[emotion];
+            if (!style) continue;
+            table[emotion] = {
+                prompt: typeof style.prompt === 'string' ? style.prompt : table[emotion].prompt,
+                rate: clamp(Number(style.rate) || 1, SPEECH_RATE_RANGE),
+                gain: clamp(Number(style.gain) || 1, SPEECH_GAIN_RANGE),
+            };
+        }
+        return table;
+    } catch {
+        return DEFAULT_SPEECH_STYLES;
+    }
+}
+
+export function saveSpeechStyles(table: SpeechStyleTable) {
+    localStorage.setItem(STYLES_STORAGE_KEY, JSON.stringify(table));
+}
+
+/**
+ * Adds the style's delivery instruction to text bound for a prompt-steerable TTS model.
+ */
+export function applyStylePrompt(text: string, style?: SpeechStyle): string {
+    const prompt = style?.prompt.trim().replace(/[:.]+$/, '');
+    return prompt ? `${prompt}: ${text}` : text;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { classifyTextEmotion } from './textEmotionClassifier';
+
+describe('classifyTextEmotion', () => {
+    it('reads plain emotional words', () => {
+        expect(classifyTextEmotion('I feel so lonely today').emotion).toBe('Sad');
+        expect(classifyTextEmotion('This is wonderful').emotion).toBe('Happy');
+    });
+
+    it('flips a negated emotion', () => {
+        const result = classifyTextEmotion("I'm not happy about it");
+        expect(result.emotion).toBe('Sad');
+        expect(result.scores.Happy).toBe(0);
+    });
+
+    it('reaches a few words past the negation', () => {
+        expect(classifyTextEmotion("I don't really feel happy").scores.Happy).toBe(0);
+    });
+
+    it('stops the negation at a clause break', () => {
+        for (const text of ["Not sure, I'm happy", "I don't know. I'm happy", 'No idea; happy though']) {
+            expect(classifyTextEmotion(text).emotion).toBe('Happy');
+        }
+    });
+
+    it('strengthens words after an intensifier and weakens them after a softener', () => {
+        const plain = classifyTextEmotion('I am sad').reliability;
+        expect(classifyTextEmotion('I am very sad').reliability).toBeGreaterThan(plain);
+        expect(classifyTextEmotion('I am slightly sad').reliability).toBeLessThan(plain);
+    });
+
+    it('does not carry an intensifier across a clause break', () => {
+        expect(classifyTextEmotion('Really, sad').reliability).toBe(classifyTextEmotion('sad').reliability);
+    });
+
+    it('scores emoji and emoticons', () => {
+        expect(classifyTextEmotion('😭').emotion).toBe('Sad');
+        expect(classifyTextEmotion('see you :D').matchedTerms).toContain(':D');
+    });
+
+    it.each(['', '   ', 'The meeting is at three.'])('is neutral with no reliability for %j', text => {
+        const result = classifyTextEmotion(text);
+        expect(result).toMatchObject({ emotion: 'Neutral', reliability: 0, matchedTerms: [] });
+        expect(result.scores.Neutral).toBe(1);
+    });
+});
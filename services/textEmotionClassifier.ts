@@ -0,0 +1,171 @@
+import { Emotion, EmotionScores } from '../types';
+import { createEmptyScores, dominantEmotion, EMOTIONS, normalizeScores } from '../utils/emotionScores';
+
+/**
+ * Offline, lexicon-based emotion classifier for typed messages and live transcriptions.
+ *
+ * Words are looked up in a small weighted lexicon, with handling for negation
+ * ("not happy") and intensifiers ("really sad"); emoticons, emoji and exclamation
+ * marks are scored separately on the raw text.
+ */
+
+export interface TextEmotionResult {
+    emotion: Emotion;
+    scores: EmotionScores;
+    /** 0..1, grows with the amount of emotional language found. 0 means nothing matched. */
+    reliability: number;
+    matchedTerms: string[];
+}
+
+type LexiconEntry = Partial<Record<Emotion, number>>;
+
+const LEXICON: Record<string, LexiconEntry> = {
+    // Happy
+    happy: { Happy: 1 }, glad: { Happy: 1 }, great: { Happy: 0.8 }, good: { Happy: 0.5 }, wonderful: { Happy: 1 },
+    amazing: { Happy: 0.9, Surprised: 0.3 }, awesome: { Happy: 0.9 }, excited: { Happy: 0.9, Surprised: 0.2 },
+    joy: { Happy: 1 }, love: { Happy: 0.8 }, fantastic: { Happy: 1 }, delighted: { Happy: 1 }, thrilled: { Happy: 1 },
+    cheerful: { Happy: 0.9 }, grateful: { Happy: 0.7, Calm: 0.3 }, thankful: { Happy: 0.7, Calm: 0.3 }, fun: { Happy: 0.7 },
+    proud: { Happy: 0.7 }, yay: { Happy: 1 }, lol: { Happy: 0.6 }, haha: { Happy: 0.7 }, best: { Happy: 0.5 },
+    enjoy: { Happy: 0.7 }, smile: { Happy: 0.7 }, laugh: { Happy: 0.7 }, hopeful: { Happy: 0.6, Calm: 0.3 },
+    // Sad
+    sad: { Sad: 1 }, unhappy: { Sad: 1 }, depressed: { Sad: 1 }, down: { Sad: 0.5 }, lonely: { Sad: 1 }, alone: { Sad: 0.6 },
+    miserable: { Sad: 1 }, heartbroken: { Sad: 1 }, cry: { Sad: 0.9 }, crying: { Sad: 0.9 }, tears: { Sad: 0.8 },
+    hopeless: { Sad: 1 }, tired: { Sad: 0.5 }, exhausted: { Sad: 0.6 }, hurt: { Sad: 0.8 }, lost: { Sad: 0.6 },
+    miss: { Sad: 0.6 }, grief: { Sad: 1 }, sorry: { Sad: 0.4 }, disappointed: { Sad: 0.8 }, empty: { Sad: 0.7 },
+    worthless: { Sad: 1 }, bad: { Sad: 0.5, Angry: 0.2 }, awful: { Sad: 0.6, Angry: 0.3 }, terrible: { Sad: 0.6, Angry: 0.3 },
+    upset: { Sad: 0.6, Angry: 0.4 }, anxious: { Sad: 0.5, Surprised: 0.2 }, worried: { Sad: 0.6 }, scared: { Sad: 0.5, Surprised: 0.4 },
+    afraid: { Sad: 0.5, Surprised: 0.4 }, stressed: { Sad: 0.5, Angry: 0.3 }, overwhelmed: { Sad: 0.7, Angry: 0.2 },
+    // Angry
+    angry: { Angry: 1 }, mad: { Angry: 0.9 }, furious: { Angry: 1 }, annoyed: { Angry: 0.7 }, irritated: { Angry: 0.7 },
+    frustrated: { Angry: 0.8, Sad: 0.2 }, hate: { Angry: 1 }, rage: { Angry: 1 }, pissed: { Angry: 1 }, unfair: { Angry: 0.7 },
+    ridiculous: { Angry: 0.6 }, stupid: { Angry: 0.7 }, sick: { Angry: 0.4, Sad: 0.3 }, fed: { Angry: 0.3 },
+    disgusted: { Angry: 0.8 }, outraged: { Angry: 1 }, resent: { Angry: 0.8 }, damn: { Angry: 0.6 }, hell: { Angry: 0.4 },
+    // Surprised
+    surprised: { Surprised: 1 }, shocked: { Surprised: 1 }, wow: { Surprised: 0.9, Happy: 0.2 }, unexpected: { Surprised: 0.8 },
+    unbelievable: { Surprised: 0.8 }, omg: { Surprised: 0.9 }, whoa: { Surprised: 0.9 }, suddenly: { Surprised: 0.5 },
+    astonished: { Surprised: 1 }, stunned: { Surprised: 0.9 },
+    // Calm
+    calm: { Calm: 1 }, relaxed: { Calm: 1 }, peaceful: { Calm: 1 }, fine: { Calm: 0.5, Neutral: 0.3 }, okay: { Neutral: 0.6, Calm: 0.3 },
+    ok: { Neutral: 0.6, Calm: 0.3 }, content: { Calm: 0.8, Happy: 0.3 }, rested: { Calm: 0.8 }, serene: { Calm: 1 },
+    chill: { Calm: 0.8 }, comfortable: { Calm: 0.7 }, safe: { Calm: 0.7 }, better: { Calm: 0.5, Happy: 0.3 },
+};
+
+const EMOTICONS: Record<string, LexiconEntry> = {
+    ':)': { Happy: 0.8 }, ':-)': { Happy: 0.8 }, ':D': { Happy: 1 }, ':(': { Sad: 0.8 }, ':-(': { Sad: 0.8 },
+    ":'(": { Sad: 1 }, '>:(': { Angry: 1 }, ':O': { Surprised: 0.8 },
+    '😀': { Happy: 1 }, '😊': { Happy: 0.9 }, '😂': { Happy: 0.9 }, '❤️': { Happy: 0.7 }, '😢': { Sad: 1 }, '😭': { Sad: 1 },
+    '😞': { Sad: 0.9 }, '😠': { Angry: 1 }, '😡': { Angry: 1 }, '😮': { Surprised: 0.9 }, '😲': { Surprised: 1 }, '😌': { Calm: 1 },
+};
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'nothing', 'hardly', 'barely', 'neither', 'nor', 'without']);
+const INTENSIFIERS: Record<string, number> = {
+    very: 1.5, really: 1.4, so: 1.4, extremely: 1.8, super: 1.5, totally: 1.4, incredibly: 1.7, too: 1.3, absolutely: 1.6,
+    slightly: 0.6, somewhat: 0.7, little: 0.7, kinda: 0.7, bit: 0.7,
+};
+// How many following tokens a negation or intensifier reaches; a clause break ends it sooner.
+const MODIFIER_SCOPE = 3;
+const CLAUSE_BREAK = /^[.,;:!?\u2013\u2014]$/;
+
+// Where a negated emotion lands: "not happy" reads as mildly sad, "not angry" as calm.
+const NEGATED: Record<Emotion, LexiconEntry> = {
+    Happy: { Sad: 0.8, Neutral: 0.2 },
+    Sad: { Neutral: 0.6, Calm: 0.4 },
+    Angry: { Calm: 0.6, Neutral: 0.4 },
+    Surprised: { Neutral: 1 },
+    Calm: { Angry: 0.4, Sad: 0.4, Surprised: 0.2 },
+    Neutral: { Neutral: 1 },
+};
+
+/** Words, plus the punctuation that separates clauses so modifiers can stop there. */
+const tokenize = (text: string): string[] =>
+    text.toLowerCase().replace(/n't\b/g, ' not').match(/[a-z']+|[.,;:!?\u2013\u2014]/g) ?? [];
+
+const lookup = (token: string): LexiconEntry | undefined => {
+    if (LEXICON[token]) return LEXICON[token];
+    // Crude stemming so "loved", "hates" and "worrying" reuse the base entry.
+    for (const suffix of ['ing', 'ed', 'es', 's', 'ly']) {
+        if (token.endsWith(suffix)) {
+            const stem = token.slice(0, -suffix.length);
+            if (LEXICON[stem]) return LEXICON[stem];
+            if (LEXICON[stem + 'e']) return LEXICON[stem + 'e'];
+        }
+    }
+    return undefined;
+};
+
+export function classifyTextEmotion(text: string): TextEmotionResult {
+    const tokens = tokenize(text);
+    const raw = createEmptyScores();
+    const matchedTerms: string[] = [];
+    let negateUntil = -1;
+    let intensity = 1;
+    let intensityUntil = -1;
+
+    tokens.forEach((token, index) => {
+        if (CLAUSE_BREAK.test(token)) {
+            // "Not sure, I'm happy": the negation belongs to the first clause only.
+            negateUntil = -1;
+            intensityUntil = -1;
+            return;
+        }
+        if (NEGATIONS.has(token)) {
+            negateUntil = index + MODIFIER_SCOPE;
+            return;
+        }
+        if (INTENSIFIERS[token] !== undefined) {
+            intensity = INTENSIFIERS[token];
+            intensityUntil = index + MODIFIER_SCOPE;
+            return;
+        }
+
+        const entry = lookup(token);
+        if (!entry) return;
+        matchedTerms.push(token);
+
+        const scale = index <= intensityUntil ? intensity : 1;
+        for (const [emotion, weight] of Object.entries(entry) as [Emotion, number][]) {
+            const target = index <= negateUntil ? NEGATED[emotion] : { [emotion]: 1 };
+            for (const [mapped, share] of Object.entries(target) as [Emotion, number][]) {
+                raw[mapped] += weight * share * scale;
+            }
+        }
+    });
+
+    for (const [emoticon, entry] of Object.entries(EMOTICONS)) {
+        const count = text.split(emoticon).length - 1;
+        if (count === 0) continue;
+        matchedTerms.push(emoticon);
+        for (const [emotion, weight] of Object.entries(entry) as [Emotion, number][]) {
+            raw[emotion] += weight * Math.min(count, 3);
+        }
+    }
+
+    // Exclamation marks amplify whatever high-arousal emotion is already present.
+    const exclamations = Math.min(3, (text.match(/!/g) ?? []).length);
+    if (exclamations > 0) {
+        const boost = 1 + 0.15 * exclamations;
+        raw.Angry *= boost;
+        raw.Happy *= boost;
+        raw.Surprised *= boost;
+    }
+    if (/\?!|!\?/.test(text)) {
+        raw.Surprised += 0.5;
+    }
+
+    const evidence = EMOTIONS.reduce((sum, emotion) => sum + raw[emotion], 0);
+    if (evidence <= 0) {
+        const scores = createEmptyScores();
+        scores.Neutral = 1;
+        return { emotion: 'Neutral', scores, reliability: 0, matchedTerms };
+    }
+
+    // Keep a Neutral prior so a single weak word does not produce a confident label.
+    raw.Neutral += 0.5;
+    const scores = normalizeScores(raw);
+    return {
+        emotion: dominantEmotion(scores).emotion,
+        scores,
+        reliability: Math.min(1, evidence / 2),
+        matchedTerms,
+    };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { EMOTIONS } from '../utils/emotionScores';
+import { classifyProsody, createVocalEmotionAnalyzer, ProsodyFeatures } from './vocalEmotionAnalyzer';
+
+const SAMPLE_RATE = 16000;
+
+const sine = (frequency: number, seconds: number, amplitude = 0.3) =>
+    Float32Array.from({ length: Math.round(SAMPLE_RATE * seconds) }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+
+/** Feeds a second of audio to a fresh analyzer and returns the result it emits. */
+const analyze = (samples: Float32Array) => {
+    const analyzer = createVocalEmotionAnalyzer({ windowMs: 1000, emitIntervalMs: 900 });
+    return analyzer.process(samples, SAMPLE_RATE);
+};
+
+describe('createVocalEmotionAnalyzer', () => {
+    it.each([120, 200, 310])('measures the pitch of a %i Hz tone', frequency => {
+        const result = analyze(sine(frequency, 1));
+        expect(result?.isSpeech).toBe(true);
+        expect(result?.features.pitch).toBeCloseTo(frequency, -1);
+        // A steady tone has no pitch movement to speak of.
+        expect(result?.features.pitchVariability).toBeLessThan(0.5);
+    });
+
+    it('places the spectral centroid of a pure tone at its frequency', () => {
+        const centroid = analyze(sine(1000, 1))?.features.spectralCentroid ?? 0;
+        expect(centroid).toBeGreaterThan(900);
+        expect(centroid).toBeLessThan(1100);
+    });
+
+    it('puts the centroid of a mix between its tones', () => {
+        const low = sine(300, 1);
+        const high = sine(2000, 1);
+        const centroid = analyze(low.map((v, i) => v + high[i]))?.features.spectralCentroid ?? 0;
+        expect(centroid).toBeGreaterThan(900);
+        expect(centroid).toBeLessThan(1400);
+    });
+
+    it('reports silence as not speech', () => {
+        const result = analyze(new Float32Array(SAMPLE_RATE));
+        expect(result).toMatchObject({ isSpeech: false, emotion: 'Neutral' });
+        expect(result?.features.pitch).toBe(0);
+    });
+
+    it('waits for the emit interval before producing a result', () => {
+        const analyzer = createVocalEmotionAnalyzer({ emitIntervalMs: 500 });
+        expect(analyzer.process(sine(200, 0.2), SAMPLE_RATE)).toBeNull();
+        expect(analyzer.process(sine(200, 0.4), SAMPLE_RATE)).not.toBeNull();
+    });
+});
+
+describe('classifyProsody', () => {
+    const features: ProsodyFeatures = {
+        pitch: 160, pitchVariability: 2.5, energy: 0.05, energyVariability: 0.6,
+        speakingRate: 4, spectralCentroid: 1500, zeroCrossingRate: 0.1, voicedRatio: 0.8,
+    };
+    const sum = (scores: Record<string, number>) => Object.values(scores).reduce((total, v) => total + v, 0);
+
+    it.each([
+        ['typical speech', features],
+        ['loud, bright and fast speech', { ...features, energy: 0.4, spectralCentroid: 3000, speakingRate: 7 }],
+        ['quiet, low and slow speech', { ...features, pitch: 110, energy: 0.005, speakingRate: 1.5 }],
+        ['unvoiced sound', { ...features, pitch: 0 }],
+    ])('returns a distribution over every emotion for %s', (_, input) => {
+        const scores = classifyProsody(input, 160, 0.05);
+        expect(Object.keys(scores).sort()).toEqual([...EMOTIONS].sort());
+        expect(sum(scores)).toBeCloseTo(1, 6);
+        expect(Object.values(scores).every(v => v >= 0)).toBe(true);
+    });
+
+    it('hears loud, bright, fast speech as angry rather than sad', () => {
+        const scores = classifyProsody({ ...features, energy: 0.4, spectralCentroid: 3000, speakingRate: 7 }, 160, 0.05);
+        expect(scores.Angry).toBeGreaterThan(scores.Sad);
+    });
+});
@@ -0,0 +1,340 @@
+import { Emotion, EmotionScores } from '../types';
+import { createEmptyScores, dominantEmotion, softmax } from '../utils/emotionScores';
+
+/**
+ * Client-side prosody analysis for vocal emotion recognition.
+ *
+ * Microphone PCM is split into short frames, each frame is reduced to a handful of
+ * acoustic features (energy, pitch, zero-crossing rate, spectral centroid), and a
+ * rolling window of frames is summarised into prosodic cues that are scored against
+ * each emotion class. Everything runs locally; no audio leaves the browser.
+ */
+
+export interface ProsodyFeatures {
+    /** Mean fundamental frequency of voiced frames, in Hz (0 when nothing was voiced). */
+    pitch: number;
+    /** Standard deviation of pitch across voiced frames, in semitones. */
+    pitchVariability: number;
+    /** Mean RMS energy of active frames. */
+    energy: number;
+    /** Coefficient of variation of frame energy across active frames. */
+    energyVariability: number;
+    /** Estimated syllable nuclei per second. */
+    speakingRate: number;
+    /** Mean spectral centroid of active frames, in Hz. */
+    spectralCentroid: number;
+    /** Mean zero-crossing rate of active frames (crossings per sample). */
+    zeroCrossingRate: number;
+    /** Fraction of frames in the window that contain speech. */
+    voicedRatio: number;
+}
+
+export interface VocalEmotionResult {
+    emotion: Emotion;
+    scores: EmotionScores;
+    features: ProsodyFeatures;
+    /** False when the window held too little speech to say anything about the speaker. */
+    isSpeech: boolean;
+}
+
+export interface VocalEmotionAnalyzerOptions {
+    /** Length of the rolling analysis window. */
+    windowMs?: number;
+    /** How much new audio must arrive before another result is emitted. */
+    emitIntervalMs?: number;
+    /** Minimum fraction of speech frames in the window to classify it. */
+    minVoicedRatio?: number;
+}
+
+export interface VocalEmotionAnalyzer {
+    /**
+     * Feeds a buffer of mono PCM samples (-1.0 to 1.0) into the analyzer.
+     * @returns A new result whenever `emitIntervalMs` of audio has accumulated, otherwise null.
+     */
+    process: (samples: Float32Array, sampleRate: number) => VocalEmotionResult | null;
+    reset: () => void;
+}
+
+interface FrameFeatures {
+    energy: number;
+    pitch: number;
+    zeroCrossingRate: number;
+    spectralCentroid: number;
+}
+
+const FRAME_DURATION_S = 0.032;
+const MIN_PITCH_HZ = 75;
+const MAX_PITCH_HZ = 400;
+const VOICING_THRESHOLD = 0.45;
+// Frames quieter than this (RMS) are treated as silence regardless of the noise floor.
+const ABSOLUTE_SILENCE_RMS = 0.005;
+const DEFAULT_BASELINE_PITCH_HZ = 160;
+
+const nextPowerOfTwo = (n: number): number => {
+    let p = 1;
+    while (p < n) p <<= 1;
+    return p;
+};
+
+/**
+ * In-place iterative radix-2 FFT. `re` and `im` must have the same power-of-two length.
+ */
+const fft = (re: Float32Array, im: Float32Array): void => {
+    const n = re.length;
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+    for (let len = 2; len <= n; len <<= 1) {
+        const angle = (-2 * Math.PI) / len;
+        const wRe = Math.cos(angle);
+        const wIm = Math.sin(angle);
+        for (let i = 0; i < n; i += len) {
+            let curRe = 1;
+            let curIm = 0;
+            for (let k = 0; k < len / 2; k++) {
+                const aRe = re[i + k];
+                const aIm = im[i + k];
+                const bRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+                const bIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+                re[i + k] = aRe + bRe;
+                im[i + k] = aIm + bIm;
+                re[i + k + len / 2] = aRe - bRe;
+                im[i + k + len / 2] = aIm - bIm;
+                const nextRe = curRe * wRe - curIm * wIm;
+                curIm = curRe * wIm + curIm * wRe;
+                curRe = nextRe;
+            }
+        }
+    }
+};
+
+const computeRms = (frame: Float32Array): number => {
+    let sum = 0;
+    for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+    return Math.sqrt(sum / frame.length);
+};
+
+const computeZeroCrossingRate = (frame: Float32Array): number => {
+    let crossings = 0;
+    for (let i = 1; i < frame.length; i++) {
+        if ((frame[i - 1] >= 0) !== (frame[i] >= 0)) crossings++;
+    }
+    return crossings / frame.length;
+};
+
+/**
+ * Estimates the fundamental frequency with a normalized autocorrelation.
+ * @returns The pitch in Hz, or 0 if the frame is not clearly periodic.
+ */
+const estimatePitch = (frame: Float32Array, sampleRate: number): number => {
+    const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+    const maxLag = Math.min(Math.floor(sampleRate / MIN_PITCH_HZ), frame.length - 1);
+    let energy = 0;
+    for (let i = 0; i < frame.length; i++) energy += frame[i] * frame[i];
+    if (energy === 0) return 0;
+
+    const correlations = new Float32Array(maxLag + 1);
+    let bestCorrelation = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        let correlation = 0;
+        for (let i = 0; i < frame.length - lag; i++) {
+            correlation += frame[i] * frame[i + lag];
+        }
+        // Normalise for the shrinking overlap so long lags are not penalised.
+        correlations[lag] = (correlation / energy) * (frame.length / (frame.length - lag));
+        bestCorrelation = Math.max(bestCorrelation, correlations[lag]);
+    }
+    if (bestCorrelation < VOICING_THRESHOLD) return 0;
+
+    // Take the shortest lag that is nearly as strong as the best one, which avoids
+    // locking onto multiples of the true period (octave errors).
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        const isPeak = correlations[lag] >= correlations[lag - 1] && correlations[lag] >= (correlations[lag + 1] ?? 0);
+        if (isPeak && correlations[lag] >= bestCorrelation * 0.9) {
+            return sampleRate / lag;
+        }
+    }
+    return 0;
+};
+
+const computeSpectralCentroid = (frame: Float32Array, sampleRate: number): number => {
+    const size = nextPowerOfTwo(frame.length);
+    const re = new Float32Array(size);
+    const im = new Float32Array(size);
+    // Hann window to limit spectral leakage from the frame edges.
+    for (let i = 0; i < frame.length; i++) {
+        re[i] = frame[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frame.length - 1)));
+    }
+    fft(re, im);
+
+    let weighted = 0;
+    let total = 0;
+    for (let bin = 1; bin < size / 2; bin++) {
+        const magnitude = Math.hypot(re[bin], im[bin]);
+        weighted += magnitude * ((bin * sampleRate) / size);
+        total += magnitude;
+    }
+    return total > 0 ? weighted / total : 0;
+};
+
+const mean = (values: number[]): number =>
+    values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+const standardDeviation = (values: number[]): number => {
+    if (values.length < 2) return 0;
+    const m = mean(values);
+    return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+};
+
+/**
+ * Counts local energy peaks as a proxy for syllable nuclei.
+ */
+const countSyllablePeaks = (energies: number[], threshold: number): number => {
+    // Syllables are rarely closer than ~100ms apart.
+    const minSpacing = Math.ceil(0.1 / FRAME_DURATION_S);
+    let peaks = 0;
+    let lastPeak = -Infinity;
+    for (let i = 1; i < energies.length - 1; i++) {
+        const e = energies[i];
+        if (e > threshold && e >= energies[i - 1] && e > energies[i + 1] && i - lastPeak >= minSpacing) {
+            peaks++;
+            lastPeak = i;
+        }
+    }
+    return peaks;
+};
+
+/**
+ * Scores prosodic cues against each emotion class. Pitch and energy are judged relative
+ * to the speaker's running baseline, since absolute values vary widely between voices.
+ */
+export function classifyProsody(
+    features: ProsodyFeatures,
+    baselinePitch: number,
+    baselineEnergy: number,
+): EmotionScores {
+    // Deviations are roughly scaled so that a typical emotional shift lands near ±1.
+    const pitch = features.pitch > 0 ? Math.log2(features.pitch / baselinePitch) / 0.25 : 0;
+    const pitchVar = (features.pitchVariability - 2.5) / 1.5;
+    const energy = baselineEnergy > 0 ? Math.log2(Math.max(features.energy, 1e-6) / baselineEnergy) : 0;
+    const energyVar = (features.energyVariability - 0.6) / 0.3;
+    const rate = (features.speakingRate - 4) / 1.5;
+    const brightness = (features.spectralCentroid - 1500) / 600;
+
+    const logits = createEmptyScores();
+    logits.Angry = 1.1 * energy + 0.7 * brightness + 0.4 * rate + 0.4 * energyVar + 0.2 * pitch - 0.6;
+    logits.Happy = 0.9 * pitch + 0.8 * pitchVar + 0.4 * energy + 0.3 * rate - 0.4;
+    logits.Surprised = 1.2 * pitch + 1.0 * pitchVar + 0.3 * energy - 0.2 * rate - 1.0;
+    logits.Sad = -0.8 * pitch - 0.7 * pitchVar - 0.8 * energy - 0.6 * rate - 0.3 * brightness - 0.5;
+    logits.Calm = -0.5 * energy - 0.5 * energyVar - 0.5 * pitchVar - 0.3 * rate - 0.4 * Math.abs(pitch) - 0.2;
+    logits.Neutral = 0.5 - 0.35 * (Math.abs(pitch) + Math.abs(energy) + Math.abs(rate) + Math.abs(pitchVar));
+
+    return softmax(logits, 0.8);
+}
+
+export function createVocalEmotionAnalyzer(options: VocalEmotionAnalyzerOptions = {}): VocalEmotionAnalyzer {
+    const windowMs = options.windowMs ?? 2000;
+    const emitIntervalMs = options.emitIntervalMs ?? 500;
+    const minVoicedRatio = options.minVoicedRatio ?? 0.2;
+
+    let pending = new Float32Array(0);
+    let frames: FrameFeatures[] = [];
+    let msSinceEmit = 0;
+    let noiseFloor = ABSOLUTE_SILENCE_RMS;
+    let baselinePitch = DEFAULT_BASELINE_PITCH_HZ;
+    let baselineEnergy = 0;
+
+    const reset = () => {
+        pending = new Float32Array(0);
+        frames = [];
+        msSinceEmit = 0;
+        noiseFloor = ABSOLUTE_SILENCE_RMS;
+        baselinePitch = DEFAULT_BASELINE_PITCH_HZ;
+        baselineEnergy = 0;
+    };
+
+    const isActive = (frame: FrameFeatures) =>
+        frame.energy > Math.max(ABSOLUTE_SILENCE_RMS, noiseFloor * 2);
+
+    const analyzeFrame = (frame: Float32Array, sampleRate: number): FrameFeatures => {
+        const energy = computeRms(frame);
+        const features: FrameFeatures = {
+            energy,
+            pitch: 0,
+            zeroCrossingRate: computeZeroCrossingRate(frame),
+            spectralCentroid: 0,
+        };
+        // Track the background level slowly upwards and quickly downwards.
+        noiseFloor = energy < noiseFloor ? noiseFloor * 0.9 + energy * 0.1 : noiseFloor * 0.999 + energy * 0.001;
+        if (isActive(features)) {
+            features.pitch = estimatePitch(frame, sampleRate);
+            features.spectralCentroid = computeSpectralCentroid(frame, sampleRate);
+            if (features.pitch > 0) {
+                baselinePitch = baselinePitch * 0.995 + features.pitch * 0.005;
+            }
+            baselineEnergy = baselineEnergy === 0 ? energy : baselineEnergy * 0.995 + energy * 0.005;
+        }
+        return features;
+    };
+
+    const summarize = (): ProsodyFeatures => {
+        const active = frames.filter(isActive);
+        const voiced = active.filter(f => f.pitch > 0);
+        const energies = active.map(f => f.energy);
+        const meanEnergy = mean(energies);
+        const semitones = voiced.map(f => 12 * Math.log2(f.pitch / baselinePitch));
+        const durationS = frames.length * FRAME_DURATION_S;
+        const peakThreshold = Math.max(noiseFloor * 3, meanEnergy * 0.8);
+
+        return {
+            pitch: mean(voiced.map(f => f.pitch)),
+            pitchVariability: standardDeviation(semitones),
+            energy: meanEnergy,
+            energyVariability: meanEnergy > 0 ? standardDeviation(energies) / meanEnergy : 0,
+            speakingRate: durationS > 0 ? countSyllablePeaks(frames.map(f => f.energy), peakThreshold) / durationS : 0,
+            spectralCentroid: mean(active.map(f => f.spectralCentroid)),
+            zeroCrossingRate: mean(active.map(f => f.zeroCrossingRate)),
+            voicedRatio: frames.length ? voiced.length / frames.length : 0,
+        };
+    };
+
+    const process = (samples: Float32Array, sampleRate: number): VocalEmotionResult | null => {
+        const frameLength = Math.round(sampleRate * FRAME_DURATION_S);
+        const combined = new Float32Array(pending.length + samples.length);
+        combined.set(pending);
+        combined.set(samples, pending.length);
+
+        let offset = 0;
+        for (; offset + frameLength <= combined.length; offset += frameLength) {
+            frames.push(analyzeFrame(combined.subarray(offset, offset + frameLength), sampleRate));
+            msSinceEmit += FRAME_DURATION_S * 1000;
+        }
+        pending = combined.slice(offset);
+
+        const maxFrames = Math.ceil(windowMs / (FRAME_DURATION_S * 1000));
+        if (frames.length > maxFrames) {
+            frames = frames.slice(frames.length - maxFrames);
+        }
+
+        if (msSinceEmit < emitIntervalMs) return null;
+        msSinceEmit = 0;
+
+        const features = summarize();
+        if (features.voicedRatio < minVoicedRatio) {
+            const scores = createEmptyScores();
+            scores.Neutral = 1;
+            return { emotion: 'Neutral', scores, features, isSpeech: false };
+        }
+
+        const scores = classifyProsody(features, baselinePitch, baselineEnergy);
+        return { emotion: dominantEmotion(scores).emotion, scores, features, isSpeech: true };
+    };
+
+    return { process, reset };
+}
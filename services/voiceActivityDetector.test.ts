@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { createVoiceActivityDetector, isBargeIn } from './voiceActivityDetector';
+
+const CHUNK_MS = 20;
+const SPEECH = 0.2;
+const QUIET = 0.002;
+
+type Detector = ReturnType<typeof createVoiceActivityDetector>;
+
+/** Feeds `durationMs` of audio at a constant level, returning the time of each event. */
+const feed = (detector: Detector, rms: number, durationMs: number) => {
+    const events: { at: number; event: string }[] = [];
+    for (let t = CHUNK_MS; t <= durationMs; t += CHUNK_MS) {
+        const { event } = detector.process(rms, CHUNK_MS);
+        if (event) events.push({ at: t, event });
+    }
+    return events;
+};
+
+describe('createVoiceActivityDetector', () => {
+    it('starts a segment once speech has lasted the attack time', () => {
+        const detector = createVoiceActivityDetector({ attackMs: 120 });
+        feed(detector, QUIET, 500);
+        expect(feed(detector, SPEECH, 1000)).toEqual([{ at: 120, event: 'speech-start' }]);
+    });
+
+    it('ignores a click shorter than the attack time', () => {
+        const detector = createVoiceActivityDetector({ attackMs: 120 });
+        feed(detector, QUIET, 500);
+        expect(feed(detector, SPEECH, 100)).toEqual([]);
+        expect(feed(detector, QUIET, 500)).toEqual([]);
+    });
+
+    it('ends a segment only after the hangover of quiet', () => {
+        const detector = createVoiceActivityDetector({ attackMs: 120, hangoverMs: 600 });
+        feed(detector, SPEECH, 500);
+        expect(feed(detector, QUIET, 1000)).toEqual([{ at: 600, event: 'speech-end' }]);
+    });
+
+    it('keeps a segment going through a pause shorter than the hangover', () => {
+        const detector = createVoiceActivityDetector({ attackMs: 120, hangoverMs: 600 });
+        feed(detector, SPEECH, 500);
+        expect(feed(detector, QUIET, 400)).toEqual([]);
+        expect(feed(detector, SPEECH, 200)).toEqual([]);
+        expect(detector.process(QUIET, CHUNK_MS).isSpeech).toBe(true);
+    });
+
+    it('raises the threshold with steady background noise', () => {
+        const detector = createVoiceActivityDetector({ minThreshold: 0.01, noiseRatio: 3 });
+        // A hum just under the starting threshold is learnt as the noise floor.
+        feed(detector, 0.014, 5000);
+        expect(feed(detector, 0.03, 1000)).toEqual([]);
+        expect(feed(detector, SPEECH, 1000).map(e => e.event)).toEqual(['speech-start']);
+    });
+
+    it('treats anything under the minimum threshold as silence', () => {
+        const detector = createVoiceActivityDetector({ minThreshold: 0.01 });
+        feed(detector, 0, 5000);
+        expect(feed(detector, 0.009, 1000)).toEqual([]);
+    });
+});
+
+describe('isBargeIn', () => {
+    it('interrupts when the user is clearly louder than the playback', () => {
+        expect(isBargeIn(0.3, 0.1)).toBe(true);
+        expect(isBargeIn(0.16, 0.1)).toBe(true);
+    });
+
+    it('ignores echo that is not louder than the playback', () => {
+        expect(isBargeIn(0.1, 0.1)).toBe(false);
+        expect(isBargeIn(0.14, 0.1)).toBe(false);
+    });
+
+    it('always interrupts silent playback', () => {
+        expect(isBargeIn(0.02, 0)).toBe(true);
+    });
+});
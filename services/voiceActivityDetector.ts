@@ -0,0 +1,101 @@
+/**
+ * Energy-based voice activity detection for live mode.
+ *
+ * Speech is detected when the level rises clearly above an adaptive estimate of
+ * the background noise for long enough, and ends after a hangover period of
+ * quiet so short pauses between words do not split a segment.
+ */
+
+export interface VoiceActivityOptions {
+    /** Level that always counts as silence, whatever the noise floor. */
+    minThreshold: number;
+    /** How far above the noise floor a chunk must be to count as speech. */
+    noiseRatio: number;
+    /** Continuous speech needed before a segment starts. */
+    attackMs: number;
+    /** Continuous quiet needed before a segment ends. */
+    hangoverMs: number;
+    /** How much audio before the start of a segment is kept so onsets are not clipped. */
+    preRollMs: number;
+}
+
+export type VoiceActivityEvent = 'speech-start' | 'speech-end';
+
+export interface VoiceActivityResult {
+    isSpeech: boolean;
+    event: VoiceActivityEvent | null;
+}
+
+const DEFAULT_OPTIONS: VoiceActivityOptions = {
+    minThreshold: 0.01,
+    noiseRatio: 3,
+    attackMs: 120,
+    hangoverMs: 600,
+    preRollMs: 300,
+};
+
+// How many times louder than the assistant's playback the microphone must be to interrupt it.
+const BARGE_IN_OUTPUT_MARGIN = 1.5;
+
+// Adaptation rate of the noise floor per chunk while no one is speaking.
+const NOISE_FLOOR_SMOOTHING = 0.05;
+const INITIAL_NOISE_FLOOR = 0.005;
+
+export function createVoiceActivityDetector(options: Partial<VoiceActivityOptions> = {}) {
+    const config = { ...DEFAULT_OPTIONS, ...options };
+
+    let noiseFloor = INITIAL_NOISE_FLOOR;
+    let isSpeech = false;
+    let loudMs = 0;
+    let quietMs = 0;
+
+    /**
+     * Feeds the level of the next chunk of audio.
+     * @param rms Root-mean-square level of the chunk, 0..1.
+     * @param durationMs Length of the chunk.
+     */
+    const process = (rms: number, durationMs: number): VoiceActivityResult => {
+        const threshold = Math.max(config.minThreshold, noiseFloor * config.noiseRatio);
+        const isLoud = rms >= threshold;
+
+        if (!isSpeech) {
+            // Only learn the noise floor from non-speech so a long utterance does not raise it.
+            if (!isLoud) noiseFloor += (rms - noiseFloor) * NOISE_FLOOR_SMOOTHING;
+            loudMs = isLoud ? loudMs + durationMs : 0;
+            if (loudMs >= config.attackMs) {
+                isSpeech = true;
+                quietMs = 0;
+                return { isSpeech, event: 'speech-start' };
+            }
+            return { isSpeech, event: null };
+        }
+
+        quietMs = isLoud ? 0 : quietMs + durationMs;
+        if (quietMs >= config.hangoverMs) {
+            isSpeech = false;
+            loudMs = 0;
+            return { isSpeech, event: 'speech-end' };
+        }
+        return { isSpeech, event: null };
+    };
+
+    const reset = () => {
+        noiseFloor = INITIAL_NOISE_FLOOR;
+        isSpeech = false;
+        loudMs = 0;
+        quietMs = 0;
+    };
+
+    return { process, reset, preRollMs: config.preRollMs };
+}
+
+/**
+ * Whether speech detected during playback should interrupt the assistant. Echo that got
+ * past the browser's cancellation is quieter than the playback, so the user has to be
+ * clearly louder.
+ * @param inputRms Microphone level of the chunk that started the speech.
+ * @param outputRms Current level of the assistant's playback.
+ */
+export function isBargeIn(inputRms: number, outputRms: number, margin = BARGE_IN_OUTPUT_MARGIN): boolean {
+    return inputRms >= outputRms * margin;
+}
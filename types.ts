@@ -1,9 +1,60 @@
 export type Emotion = 'Happy' | 'Sad' | 'Angry' | 'Neutral' | 'Surprised' | 'Calm';
 export type FusedEmotion = 'Happy' | 'Sad' | 'Angry' | 'Neutral' | 'Surprised';
 
+// Per-class probabilities (0..1, summing to 1) produced by an emotion classifier.
+export type EmotionScores = Record<Emotion, number>;
+
+export type EmotionModality = 'face' | 'voice' | 'text';
+
+export type FaceStatus = 'searching' | 'tracking' | 'no-face';
+
+export interface FusionResult {
+  emotion: FusedEmotion;
+  // 0..1; low when the modalities disagree or there is little recent evidence.
+  confidence: number;
+  scores: EmotionScores;
+  // Smoothed distribution of each modality that contributed.
+  modalities: Partial<Record<EmotionModality, EmotionScores>>;
+}
+
+export interface EmotionTimelineEntry {
+  timestamp: number;
+  fusion: FusionResult;
+}
+
+// Whether a message was typed in the chat box or transcribed from the live voice session.
+export type MessageOrigin = 'typed' | 'live';
+
+export type CrisisCategory = 'self-harm' | 'suicidal-ideation' | 'abuse';
+
+export type ServiceErrorKind =
+  | 'invalid-key'
+  | 'access-denied'
+  | 'rate-limit'
+  | 'safety'
+  | 'network'
+  | 'model-unavailable'
+  | 'media-permission'
+  | 'unknown';
+
 export interface ChatMessage {
+  id: string;
   sender: 'user' | 'ai';
   text: string;
+  timestamp: number;
+  origin: MessageOrigin;
+  // Fused emotion (with per-modality scores) when the message was sent.
+  emotion?: FusionResult;
+  // TTS voice used to speak an AI message.
+  voice?: string;
+  // Set when the user talked over a live AI reply and its playback was cut short.
+  interrupted?: boolean;
+  // Key of the reply's synthesized speech in the local audio cache.
+  audioId?: string;
+  // Crisis signals found in a user message; on an AI message, marks the safe-messaging reply sent instead of the model's.
+  crisis?: CrisisCategory[];
+  // Why an AI reply failed; the text keeps whatever arrived before the failure.
+  error?: ServiceErrorKind;
 }
 
 export type Theme = 'light' | 'dark';
@@ -36,3 +36,22 @@ export function encode(bytes: Uint8Array): string {
     }
     return btoa(binary);
 }
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return result;
+}
+
+/** Root-mean-square level, 0..1, of what an analyser is currently passing. */
+export function analyserLevel(analyser: AnalyserNode): number {
+    const samples = new Float32Array(analyser.fftSize);
+    analyser.getFloatTimeDomainData(samples);
+    let sumSquares = 0;
+    for (let i = 0; i < samples.length; i++) sumSquares += samples[i] * samples[i];
+    return Math.sqrt(sumSquares / samples.length);
+}
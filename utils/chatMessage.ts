@@ -0,0 +1,10 @@
+import { ChatMessage, MessageOrigin } from '../types';
+
+export function createChatMessage(
+    sender: ChatMessage['sender'],
+    text: string,
+    origin: MessageOrigin,
+    details: Pick<ChatMessage, 'emotion' | 'voice' | 'crisis' | 'error'> = {},
+): ChatMessage {
+    return { id: crypto.randomUUID(), sender, text, timestamp: Date.now(), origin, ...details };
+}
@@ -0,0 +1,44 @@
+import { Emotion, EmotionScores } from '../types';
+
+export const EMOTIONS: Emotion[] = ['Happy', 'Sad', 'Angry', 'Neutral', 'Surprised', 'Calm'];
+
+export function createEmptyScores(): EmotionScores {
+    return { Happy: 0, Sad: 0, Angry: 0, Neutral: 0, Surprised: 0, Calm: 0 };
+}
+
+/**
+ * Rescales scores so they sum to 1. An all-zero input becomes fully Neutral.
+ */
+export function normalizeScores(scores: EmotionScores): EmotionScores {
+    const total = EMOTIONS.reduce((sum, emotion) => sum + Math.max(0, scores[emotion]), 0);
+    const result = createEmptyScores();
+    if (total <= 0) {
+        result.Neutral = 1;
+        return result;
+    }
+    for (const emotion of EMOTIONS) {
+        result[emotion] = Math.max(0, scores[emotion]) / total;
+    }
+    return result;
+}
+
+/**
+ * Turns raw per-class logits into a probability distribution.
+ * @param logits Unbounded scores for each emotion.
+ * @param temperature Values above 1 flatten the distribution, below 1 sharpen it.
+ */
+export function softmax(logits: EmotionScores, temperature = 1): EmotionScores {
+    const max = Math.max(...EMOTIONS.map(emotion => logits[emotion]));
+    const result = createEmptyScores();
+    for (const emotion of EMOTIONS) {
+        result[emotion] = Math.exp((logits[emotion] - max) / temperature);
+    }
+    return normalizeScores(result);
+}
+
+export function dominantEmotion(scores: EmotionScores): { emotion: Emotion; score: number } {
+    return EMOTIONS.reduce(
+        (best, emotion) => scores[emotion] > best.score ? { emotion, score: scores[emotion] } : best,
+        { emotion: 'Neutral' as Emotion, score: -Infinity },
+    );
+}
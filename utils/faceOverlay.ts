@@ -0,0 +1,74 @@
+import type { DetectedFace } from '../services/faceDetectionClient';
+import type { TrackedFace } from '../services/faceIdentityTracker';
+
+const PRIMARY_COLOR = '#22d3ee';
+const OTHER_COLOR = '#9ca3af';
+const LABEL_TEXT_COLOR = '#111827';
+
+/**
+ * Where the video frame is actually drawn inside an `object-contain` video element,
+ * which letterboxes when the aspect ratios differ.
+ */
+const getContentRect = (video: HTMLVideoElement) => {
+    const { clientWidth, clientHeight, videoWidth, videoHeight } = video;
+    if (!videoWidth || !videoHeight) return { x: 0, y: 0, width: clientWidth, height: clientHeight };
+    const scale = Math.min(clientWidth / videoWidth, clientHeight / videoHeight);
+    const width = videoWidth * scale;
+    const height = videoHeight * scale;
+    return { x: (clientWidth - width) / 2, y: (clientHeight - height) / 2, width, height };
+};
+
+export interface FaceOverlayOptions {
+    primaryId: number | null;
+    /** Label every face with its strongest expression, not just the primary one. */
+    showAllEmotions: boolean;
+    /** Prefix labels with "Person N"; only useful when several faces are tracked. */
+    showIds: boolean;
+}
+
+const topExpression = (face: DetectedFace) => {
+    const [expression, probability] = Object.entries(face.expressions).reduce((a, b) => (b[1] > a[1] ? b : a));
+    return `${expression} ${Math.round(probability * 100)}%`;
+};
+
+/**
+ * Draws a box per visible face. The primary face is highlighted and labelled with its
+ * strongest expression; other faces are drawn muted.
+ */
+export function drawFaceOverlay(canvas: HTMLCanvasElement, video: HTMLVideoElement, faces: TrackedFace[], options: FaceOverlayOptions) {
+    if (canvas.width !== video.clientWidth || canvas.height !== video.clientHeight) {
+        canvas.width = video.clientWidth;
+        canvas.height = video.clientHeight;
+    }
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const content = getContentRect(video);
+    ctx.font = '14px sans-serif';
+    for (const face of faces) {
+        if (!face.isVisible) continue;
+        const isPrimary = face.id === options.primaryId;
+        const color = isPrimary ? PRIMARY_COLOR : OTHER_COLOR;
+        const x = content.x + face.box.x * content.width;
+        const y = content.y + face.box.y * content.height;
+        const width = face.box.width * content.width;
+        const height = face.box.height * content.height;
+
+        ctx.strokeStyle = color;
+        ctx.lineWidth = isPrimary ? 3 : 1.5;
+        ctx.strokeRect(x, y, width, height);
+
+        const parts: string[] = [];
+        if (options.showIds) parts.push(`Person ${face.id}`);
+        if (isPrimary || options.showAllEmotions) parts.push(topExpression(face));
+        if (parts.length === 0) continue;
+        const label = parts.join(' · ');
+        const labelWidth = ctx.measureText(label).width + 8;
+        const labelY = y > 20 ? y - 20 : y + height;
+        ctx.fillStyle = color;
+        ctx.fillRect(x, labelY, labelWidth, 20);
+        ctx.fillStyle = LABEL_TEXT_COLOR;
+        ctx.fillText(label, x + 4, labelY + 15);
+    }
+}
@@ -0,0 +1,39 @@
+// Sentence ends need trailing whitespace so decimals ("3.5") and a sentence that is
+// still streaming are not cut early.
+const SENTENCE_BOUNDARY = /[.!?…]+["'”’)\]]*\s+|\n+/g;
+
+/**
+ * Splits streamed text into speakable sentences as soon as each one is complete.
+ * Sentences shorter than `minLength` are merged with the next so TTS is not
+ * called for fragments like "Oh!".
+ */
+export function createSentenceChunker(minLength = 20) {
+    let buffer = '';
+
+    const push = (text: string): string[] => {
+        buffer += text;
+        const sentences: string[] = [];
+        let start = 0;
+        SENTENCE_BOUNDARY.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = SENTENCE_BOUNDARY.exec(buffer))) {
+            const end = match.index + match[0].length;
+            const sentence = buffer.slice(start, end).trim();
+            if (sentence.length >= minLength) {
+                sentences.push(sentence);
+                start = end;
+            }
+        }
+        buffer = buffer.slice(start);
+        return sentences;
+    };
+
+    /** Returns whatever text is left once the stream has ended. */
+    const flush = (): string | null => {
+        const rest = buffer.trim();
+        buffer = '';
+        return rest || null;
+    };
+
+    return { push, flush };
+}
@@ -1,7 +1,38 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const FACE_MODEL_DIR = path.resolve(__dirname, 'node_modules/@vladmandic/face-api/model');
+// Only the models the app can load; the package also ships age, landmark and recognition nets.
+const FACE_MODEL_FILES = ['tiny_face_detector_model', 'ssd_mobilenetv1_model', 'face_expression_model']
+    .flatMap(name => [`${name}-weights_manifest.json`, `${name}.bin`]);
+
+/**
+ * Serves the face-api weights from the installed package at `/models/` in dev and
+ * copies them into the build, so face detection never depends on a CDN.
+ */
+function faceModels(): Plugin {
+    return {
+        name: 'face-models',
+        configureServer(server) {
+            server.middlewares.use('/models', (req, res, next) => {
+                const file = path.basename((req.url ?? '').split('?')[0]);
+                if (!FACE_MODEL_FILES.includes(file)) return next();
+                const filePath = path.join(FACE_MODEL_DIR, file);
+                res.setHeader('Content-Type', file.endsWith('.json') ? 'application/json' : 'application/octet-stream');
+                res.setHeader('Content-Length', fs.statSync(filePath).size);
+                fs.createReadStream(filePath).pipe(res);
+            });
+        },
+        generateBundle() {
+            for (const file of FACE_MODEL_FILES) {
+                this.emitFile({ type: 'asset', fileName: `models/${file}`, source: fs.readFileSync(path.join(FACE_MODEL_DIR, file)) });
+            }
+        },
+    };
+}
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +40,14 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), faceModels()],
+      worker: {
+        format: 'es',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER)
       },
       resolve: {
         alias: {